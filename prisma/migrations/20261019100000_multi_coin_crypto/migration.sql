@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "PaymentType" RENAME VALUE 'CRYPTO_USDT' TO 'CRYPTO';
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN "priceAmount" DECIMAL(65,30);
+
+-- Приводим старые платежи к кодам валют NOWPayments
+UPDATE "payments" SET "currency" = 'usdttrc20' WHERE "currency" = 'USDTTRC20';
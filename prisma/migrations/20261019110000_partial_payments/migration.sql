@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "PaymentStatus" ADD VALUE 'PARTIALLY_PAID';
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN "purchaseId" TEXT,
+ADD COLUMN "actuallyPaid" DECIMAL(65,30),
+ADD COLUMN "parentPaymentId" TEXT,
+ADD COLUMN "shortfallAcceptedAt" TIMESTAMP(3);
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_parentPaymentId_fkey" FOREIGN KEY ("parentPaymentId") REFERENCES "payments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,54 @@
+-- CreateTable
+CREATE TABLE "plans" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "durationSeconds" INTEGER NOT NULL,
+    "starsPrice" INTEGER NOT NULL,
+    "usdPrice" DECIMAL(65,30) NOT NULL,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "plans_pkey" PRIMARY KEY ("id")
+);
+
+-- Переносим прежние планы из PlanType (id совпадают со значениями enum,
+-- поэтому старые кнопки plan_DAY и т.п. продолжают работать)
+INSERT INTO "plans" ("id", "name", "durationSeconds", "starsPrice", "usdPrice", "sortOrder", "updatedAt") VALUES
+    ('DAY', '1 day', 86400, 399, 21, 1, CURRENT_TIMESTAMP),
+    ('WEEK', '1 week', 604800, 599, 30, 2, CURRENT_TIMESTAMP),
+    ('MONTH', '1 month', 2592000, 2500, 61, 3, CURRENT_TIMESTAMP);
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN "planId" TEXT,
+ADD COLUMN "durationSeconds" INTEGER;
+
+-- Старые платежи сохраняют сумму и срок, действовавшие при покупке
+UPDATE "payments" SET "planId" = "planType"::TEXT,
+    "durationSeconds" = CASE "planType"
+        WHEN 'DAY' THEN 86400
+        WHEN 'WEEK' THEN 604800
+        WHEN 'MONTH' THEN 2592000
+    END;
+
+ALTER TABLE "payments" ALTER COLUMN "planId" SET NOT NULL,
+ALTER COLUMN "durationSeconds" SET NOT NULL,
+DROP COLUMN "planType";
+
+-- AlterTable
+ALTER TABLE "subscriptions" ADD COLUMN "planId" TEXT;
+
+UPDATE "subscriptions" SET "planId" = "planType"::TEXT;
+
+ALTER TABLE "subscriptions" ALTER COLUMN "planId" SET NOT NULL,
+DROP COLUMN "planType";
+
+-- DropEnum
+DROP TYPE "PlanType";
+
+-- AddForeignKey
+ALTER TABLE "subscriptions" ADD CONSTRAINT "subscriptions_planId_fkey" FOREIGN KEY ("planId") REFERENCES "plans"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_planId_fkey" FOREIGN KEY ("planId") REFERENCES "plans"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
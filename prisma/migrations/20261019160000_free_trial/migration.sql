@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "trialUsedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "subscriptions" ADD COLUMN "isTrial" BOOLEAN NOT NULL DEFAULT false;
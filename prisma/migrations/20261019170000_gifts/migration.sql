@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN "isGift" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "gifts" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "buyerId" TEXT NOT NULL,
+    "recipientId" TEXT,
+    "planId" TEXT NOT NULL,
+    "durationSeconds" INTEGER NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "redeemedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "gifts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "gifts_code_key" ON "gifts"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "gifts_paymentId_key" ON "gifts"("paymentId");
+
+-- AddForeignKey
+ALTER TABLE "gifts" ADD CONSTRAINT "gifts_buyerId_fkey" FOREIGN KEY ("buyerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "gifts" ADD CONSTRAINT "gifts_recipientId_fkey" FOREIGN KEY ("recipientId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "gifts" ADD CONSTRAINT "gifts_planId_fkey" FOREIGN KEY ("planId") REFERENCES "plans"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "gifts" ADD CONSTRAINT "gifts_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
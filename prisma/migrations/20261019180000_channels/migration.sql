@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "channels" (
+    "id" TEXT NOT NULL,
+    "telegramChatId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "channels_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "plan_channels" (
+    "planId" TEXT NOT NULL,
+    "channelId" TEXT NOT NULL,
+
+    CONSTRAINT "plan_channels_pkey" PRIMARY KEY ("planId","channelId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "channels_telegramChatId_key" ON "channels"("telegramChatId");
+
+-- Каналы из существующих подписок (до этого бот продавал один CHANNEL_ID)
+INSERT INTO "channels" ("id", "telegramChatId", "title", "updatedAt")
+SELECT DISTINCT 'c' || substr(md5("channelId"), 1, 24), "channelId", 'Channel', CURRENT_TIMESTAMP
+FROM "subscriptions";
+
+-- Существующие планы продают этот канал
+INSERT INTO "plan_channels" ("planId", "channelId")
+SELECT "plans"."id", "channels"."id" FROM "plans" CROSS JOIN "channels";
+
+-- DropIndex
+DROP INDEX "subscriptions_paymentId_key";
+
+-- AddForeignKey
+ALTER TABLE "subscriptions" ADD CONSTRAINT "subscriptions_channelId_fkey" FOREIGN KEY ("channelId") REFERENCES "channels"("telegramChatId") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "plan_channels" ADD CONSTRAINT "plan_channels_planId_fkey" FOREIGN KEY ("planId") REFERENCES "plans"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "plan_channels" ADD CONSTRAINT "plan_channels_channelId_fkey" FOREIGN KEY ("channelId") REFERENCES "channels"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "admin_actions" (
+    "id" TEXT NOT NULL,
+    "adminTelegramId" BIGINT NOT NULL,
+    "action" TEXT NOT NULL,
+    "targetUserId" TEXT,
+    "paymentId" TEXT,
+    "details" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "admin_actions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "admin_actions_targetUserId_idx" ON "admin_actions"("targetUserId");
+
+-- AddForeignKey
+ALTER TABLE "admin_actions" ADD CONSTRAINT "admin_actions_targetUserId_fkey" FOREIGN KEY ("targetUserId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
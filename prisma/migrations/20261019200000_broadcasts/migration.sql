@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "BroadcastSegment" AS ENUM ('ALL', 'ACTIVE', 'EXPIRED', 'NEVER_PAID');
+
+-- CreateEnum
+CREATE TYPE "BroadcastMediaType" AS ENUM ('PHOTO', 'VIDEO');
+
+-- CreateEnum
+CREATE TYPE "BroadcastStatus" AS ENUM ('DRAFT', 'SENDING', 'COMPLETED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "broadcasts" (
+    "id" TEXT NOT NULL,
+    "adminTelegramId" BIGINT NOT NULL,
+    "segment" "BroadcastSegment" NOT NULL,
+    "text" TEXT,
+    "mediaType" "BroadcastMediaType",
+    "mediaFileId" TEXT,
+    "buttons" JSONB,
+    "status" "BroadcastStatus" NOT NULL DEFAULT 'DRAFT',
+    "lastUserId" TEXT,
+    "deliveredCount" INTEGER NOT NULL DEFAULT 0,
+    "failedCount" INTEGER NOT NULL DEFAULT 0,
+    "blockedCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "broadcasts_pkey" PRIMARY KEY ("id")
+);
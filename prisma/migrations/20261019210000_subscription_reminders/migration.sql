@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "subscription_reminders" (
+    "id" TEXT NOT NULL,
+    "subscriptionId" TEXT NOT NULL,
+    "offsetSeconds" INTEGER NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "subscription_reminders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "subscription_reminders_subscriptionId_offsetSeconds_endDate_key" ON "subscription_reminders"("subscriptionId", "offsetSeconds", "endDate");
+
+-- AddForeignKey
+ALTER TABLE "subscription_reminders" ADD CONSTRAINT "subscription_reminders_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "subscriptions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
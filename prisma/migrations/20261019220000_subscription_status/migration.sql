@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "SubscriptionStatus" AS ENUM ('ACTIVE', 'GRACE', 'EXPIRED', 'REVOKED');
+
+-- AlterTable
+ALTER TABLE "subscriptions" ADD COLUMN "status" "SubscriptionStatus" NOT NULL DEFAULT 'ACTIVE';
+
+-- Прежние неактивные подписки считаем истекшими
+UPDATE "subscriptions" SET "status" = 'EXPIRED' WHERE "isActive" = false;
+
+ALTER TABLE "subscriptions" DROP COLUMN "isActive";
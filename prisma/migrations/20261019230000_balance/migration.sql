@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "BalanceEntryType" AS ENUM ('DEPOSIT', 'PURCHASE', 'REFUND', 'BONUS', 'ADJUSTMENT');
+
+-- AlterEnum
+ALTER TYPE "PaymentType" ADD VALUE 'BALANCE';
+
+-- AlterEnum
+ALTER TYPE "RefundMethod" ADD VALUE 'BALANCE';
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "balance" DECIMAL(65,30) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "balance_entries" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "BalanceEntryType" NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "paymentId" TEXT,
+    "adminTelegramId" BIGINT,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "balance_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "balance_entries_userId_createdAt_idx" ON "balance_entries"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "balance_entries" ADD CONSTRAINT "balance_entries_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "balance_entries" ADD CONSTRAINT "balance_entries_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "AutoRenewMethod" AS ENUM ('TELEGRAM_STARS', 'BALANCE');
+
+-- CreateTable
+CREATE TABLE "auto_renewals" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "planId" TEXT NOT NULL,
+    "method" "AutoRenewMethod" NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "invoicePayload" TEXT,
+    "telegramPaymentChargeId" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "failureNotifiedAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "auto_renewals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "auto_renewals_invoicePayload_key" ON "auto_renewals"("invoicePayload");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "auto_renewals_userId_planId_key" ON "auto_renewals"("userId", "planId");
+
+-- AddForeignKey
+ALTER TABLE "auto_renewals" ADD CONSTRAINT "auto_renewals_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "auto_renewals" ADD CONSTRAINT "auto_renewals_planId_fkey" FOREIGN KEY ("planId") REFERENCES "plans"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "languageCode" TEXT,
+ADD COLUMN "language" TEXT;
+
+-- AlterTable
+ALTER TABLE "plans" ADD COLUMN "nameTranslations" JSONB NOT NULL DEFAULT '{}';
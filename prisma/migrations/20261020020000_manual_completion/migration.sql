@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN "manuallyCompletedAt" TIMESTAMP(3);
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN "cryptoOrderId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payments_cryptoOrderId_key" ON "payments"("cryptoOrderId");
@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "PaymentEventSource" AS ENUM ('IPN', 'POLL', 'CHECK_COMMAND', 'CHECK_BUTTON', 'TELEGRAM', 'ADMIN', 'API', 'RECONCILIATION', 'CLEANUP', 'SYSTEM');
+
+-- CreateTable
+CREATE TABLE "payment_events" (
+    "id" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "source" "PaymentEventSource" NOT NULL,
+    "providerStatus" TEXT,
+    "fromStatus" "PaymentStatus",
+    "toStatus" "PaymentStatus",
+    "details" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payment_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payment_events_paymentId_createdAt_idx" ON "payment_events"("paymentId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "payment_events" ADD CONSTRAINT "payment_events_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,59 @@
+-- CreateEnum
+CREATE TYPE "PeriodSource" AS ENUM ('PAYMENT', 'TRIAL', 'GIFT', 'REFERRAL', 'ADMIN');
+
+-- CreateTable
+CREATE TABLE "subscription_periods" (
+    "id" TEXT NOT NULL,
+    "subscriptionId" TEXT NOT NULL,
+    "source" "PeriodSource" NOT NULL,
+    "planId" TEXT,
+    "paymentId" TEXT,
+    "giftId" TEXT,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "subscription_periods_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "subscription_periods_subscriptionId_startDate_idx" ON "subscription_periods"("subscriptionId", "startDate");
+
+-- CreateIndex
+CREATE INDEX "subscription_periods_paymentId_idx" ON "subscription_periods"("paymentId");
+
+-- AddForeignKey
+ALTER TABLE "subscription_periods" ADD CONSTRAINT "subscription_periods_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "subscriptions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "subscription_periods" ADD CONSTRAINT "subscription_periods_planId_fkey" FOREIGN KEY ("planId") REFERENCES "plans"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "subscription_periods" ADD CONSTRAINT "subscription_periods_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "subscription_periods" ADD CONSTRAINT "subscription_periods_giftId_fkey" FOREIGN KEY ("giftId") REFERENCES "gifts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Существующие подписки: один период на весь срок. Продления до миграции
+-- отдельно не записывались, поэтому платеж привязывается к периоду, только
+-- если подписка не продлевалась — иначе возврат снимает срок по-старому
+INSERT INTO "subscription_periods" ("id", "subscriptionId", "source", "planId", "paymentId", "startDate", "endDate", "revokedAt")
+SELECT
+    md5(s."id" || ':period'),
+    s."id",
+    (CASE
+        WHEN s."isTrial" THEN 'TRIAL'
+        WHEN s."paymentId" IS NOT NULL THEN 'PAYMENT'
+        ELSE 'ADMIN'
+    END)::"PeriodSource",
+    s."planId",
+    CASE
+        WHEN s."endDate" <= s."startDate" + p."durationSeconds" * INTERVAL '1 second'
+        THEN p."id"
+    END,
+    s."startDate",
+    s."endDate",
+    CASE WHEN s."status" = 'REVOKED' THEN s."endDate" END
+FROM "subscriptions" s
+LEFT JOIN "payments" p ON p."id" = s."paymentId";
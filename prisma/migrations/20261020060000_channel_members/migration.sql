@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "channel_members" (
+    "id" TEXT NOT NULL,
+    "channelId" TEXT NOT NULL,
+    "telegramId" BIGINT NOT NULL,
+    "username" TEXT,
+    "firstName" TEXT,
+    "isBot" BOOLEAN NOT NULL DEFAULT false,
+    "status" TEXT NOT NULL,
+    "isMember" BOOLEAN NOT NULL,
+    "joinedAt" TIMESTAMP(3),
+    "leftAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "channel_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "channel_member_events" (
+    "id" TEXT NOT NULL,
+    "channelId" TEXT NOT NULL,
+    "telegramId" BIGINT NOT NULL,
+    "fromStatus" TEXT NOT NULL,
+    "toStatus" TEXT NOT NULL,
+    "actorId" BIGINT,
+    "inviteLink" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "channel_member_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "channel_members_channelId_telegramId_key" ON "channel_members"("channelId", "telegramId");
+
+-- CreateIndex
+CREATE INDEX "channel_members_channelId_isMember_idx" ON "channel_members"("channelId", "isMember");
+
+-- CreateIndex
+CREATE INDEX "channel_member_events_channelId_telegramId_createdAt_idx" ON "channel_member_events"("channelId", "telegramId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "channel_members" ADD CONSTRAINT "channel_members_channelId_fkey" FOREIGN KEY ("channelId") REFERENCES "channels"("telegramChatId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "channel_member_events" ADD CONSTRAINT "channel_member_events_channelId_fkey" FOREIGN KEY ("channelId") REFERENCES "channels"("telegramChatId") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "invite_links" (
+    "id" TEXT NOT NULL,
+    "link" TEXT NOT NULL,
+    "channelId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "paymentId" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "usedByTelegramId" BIGINT,
+    "mismatchAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "invite_links_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invite_links_link_key" ON "invite_links"("link");
+
+-- CreateIndex
+CREATE INDEX "invite_links_userId_channelId_idx" ON "invite_links"("userId", "channelId");
+
+-- AddForeignKey
+ALTER TABLE "invite_links" ADD CONSTRAINT "invite_links_channelId_fkey" FOREIGN KEY ("channelId") REFERENCES "channels"("telegramChatId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invite_links" ADD CONSTRAINT "invite_links_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invite_links" ADD CONSTRAINT "invite_links_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+/**
+ * Telegram ID администраторов (ADMIN_IDS через запятую)
+ */
+export function getAdminIds(): number[] {
+    return (process.env.ADMIN_IDS || "")
+        .split(",")
+        .map((id) => parseInt(id.trim(), 10))
+        .filter((id) => !isNaN(id));
+}
+
+/**
+ * Ключи REST API администраторов: ADMIN_API_KEYS вида
+ * "<telegramId>:<ключ>,..." — ключ привязан к администратору для аудита
+ */
+export function getAdminApiKeys(): Map<string, number> {
+    const keys = new Map<string, number>();
+
+    for (const entry of (process.env.ADMIN_API_KEYS || "").split(",")) {
+        const separator = entry.indexOf(":");
+        if (separator === -1) continue;
+
+        const adminId = parseInt(entry.slice(0, separator).trim(), 10);
+        const key = entry.slice(separator + 1).trim();
+
+        if (!isNaN(adminId) && key) {
+            keys.set(key, adminId);
+        }
+    }
+
+    return keys;
+}
+
+export function isAdmin(telegramId: number): boolean {
+    return getAdminIds().includes(telegramId);
+}
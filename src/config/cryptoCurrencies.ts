@@ -0,0 +1,55 @@
+export interface CryptoCurrencyInfo {
+    code: string; // Код валюты в NOWPayments
+    name: string; // Название для пользователя
+    ticker: string; // Тикер монеты в кошельке
+    network: string; // Сеть перевода
+}
+
+// Описания монет для текстов оплаты и инструкций
+const KNOWN_CURRENCIES: Record<string, Omit<CryptoCurrencyInfo, "code">> = {
+    usdttrc20: { name: "USDT TRC20", ticker: "USDT", network: "TRON (TRC20)" },
+    usdterc20: {
+        name: "USDT ERC20",
+        ticker: "USDT",
+        network: "Ethereum (ERC20)",
+    },
+    usdtbsc: {
+        name: "USDT BEP20",
+        ticker: "USDT",
+        network: "BNB Smart Chain (BEP20)",
+    },
+    usdtton: { name: "USDT TON", ticker: "USDT", network: "TON" },
+    usdtsol: { name: "USDT Solana", ticker: "USDT", network: "Solana" },
+    btc: { name: "Bitcoin", ticker: "BTC", network: "Bitcoin" },
+    eth: { name: "Ethereum", ticker: "ETH", network: "Ethereum (ERC20)" },
+    ton: { name: "Toncoin", ticker: "TON", network: "TON" },
+    ltc: { name: "Litecoin", ticker: "LTC", network: "Litecoin" },
+};
+
+export const DEFAULT_CRYPTO_CURRENCY = "usdttrc20";
+
+export function getCryptoCurrencyInfo(code: string): CryptoCurrencyInfo {
+    const normalized = code.toLowerCase();
+    const known = KNOWN_CURRENCIES[normalized];
+
+    return {
+        code: normalized,
+        name: known?.name || normalized.toUpperCase(),
+        ticker: known?.ticker || normalized.toUpperCase(),
+        network: known?.network || normalized.toUpperCase(),
+    };
+}
+
+/**
+ * Список монет, разрешенных администратором (CRYPTO_CURRENCIES через запятую)
+ */
+export function getConfiguredCryptoCurrencies(): string[] {
+    const configured = (
+        process.env.CRYPTO_CURRENCIES || DEFAULT_CRYPTO_CURRENCY
+    )
+        .split(",")
+        .map((code) => code.trim().toLowerCase())
+        .filter(Boolean);
+
+    return [...new Set(configured)];
+}
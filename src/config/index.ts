@@ -0,0 +1,3 @@
+export * from "./cryptoCurrencies";
+export * from "./admins";
+export * from "./telegram";
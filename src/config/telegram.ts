@@ -0,0 +1,11 @@
+/**
+ * Типы обновлений, которые бот получает от Telegram. chat_member
+ * по умолчанию не присылается и должен быть запрошен явно
+ */
+export const TELEGRAM_ALLOWED_UPDATES = [
+    "message",
+    "callback_query",
+    "pre_checkout_query",
+    "chat_join_request",
+    "chat_member",
+];
@@ -0,0 +1,1768 @@
+import TelegramBot from "node-telegram-bot-api";
+import { PaymentService } from "../services/PaymentService";
+import {
+    PlanService,
+    PlanInput,
+    PlanWithChannels,
+} from "../services/PlanService";
+import { CouponService, CouponInput } from "../services/CouponService";
+import { ChannelService } from "../services/ChannelService";
+import { SubscriptionService } from "../services/SubscriptionService";
+import { UserService } from "../services/UserService";
+import { AuditService } from "../services/AuditService";
+import {
+    BroadcastService,
+    BroadcastButton,
+} from "../services/BroadcastService";
+import { WalletService } from "../services/WalletService";
+import {
+    netTotals,
+    ReportService,
+    ReportPeriod,
+    RevenueReport,
+    RevenueSplit,
+    RevenueTotals,
+} from "../services/ReportService";
+import { MembershipService } from "../services/MembershipService";
+import { PaymentHandlers } from "./PaymentHandlers";
+import { getUserLocale, isLocale, LOCALES, MessageKey, t } from "../i18n";
+import {
+    BalanceEntryType,
+    BroadcastMediaType,
+    BroadcastSegment,
+    Channel,
+    DiscountType,
+    Payment,
+    PaymentEvent,
+    PaymentEventSource,
+    Plan,
+    Prisma,
+    PrismaClient,
+    RefundMethod,
+    SubscriptionStatus,
+    User,
+} from "@prisma/client";
+import { isAdmin } from "../config";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Лимит длины сообщения Telegram
+const MAX_MESSAGE_LENGTH = 4096;
+
+const SUBSCRIPTION_STATUS_EMOJI: Record<SubscriptionStatus, string> = {
+    ACTIVE: "🟢",
+    GRACE: "🟡",
+    EXPIRED: "⚪️",
+    REVOKED: "⛔️",
+};
+
+// Текст запроса содержимого рассылки; ответ на него считается сообщением
+const BROADCAST_PROMPT = "📣 New broadcast for segment";
+
+const BROADCAST_SEGMENTS: Record<string, BroadcastSegment> = {
+    all: BroadcastSegment.ALL,
+    active: BroadcastSegment.ACTIVE,
+    expired: BroadcastSegment.EXPIRED,
+    unpaid: BroadcastSegment.NEVER_PAID,
+};
+
+export class AdminHandlers {
+    constructor(
+        private bot: TelegramBot,
+        private paymentService: PaymentService,
+        private prisma: PrismaClient,
+        private planService: PlanService,
+        private couponService: CouponService,
+        private channelService: ChannelService,
+        private subscriptionService: SubscriptionService,
+        private userService: UserService,
+        private auditService: AuditService,
+        private paymentHandlers: PaymentHandlers,
+        private broadcastService: BroadcastService,
+        private walletService: WalletService,
+        private reportService: ReportService,
+        private membershipService: MembershipService
+    ) {
+        this.setupHandlers();
+    }
+
+    private setupHandlers() {
+        this.setupUserHandlers();
+        this.setupChannelHandlers();
+        this.setupPlanHandlers();
+        this.setupCouponHandlers();
+        this.setupBroadcastHandlers();
+        this.setupReportHandlers();
+        this.setupMembershipHandlers();
+
+        // Возврат платежа; /refundbalance зачисляет возврат на баланс
+        this.adminCommand(
+            /^\/refund(balance)?(?:\s+(\S+))?(?:\s+([\s\S]+))?$/,
+            async (msg, match) => {
+                const [, toBalance, paymentId, reason] = match;
+
+                if (!paymentId) {
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        "Usage: /refund <paymentId> [reason]\n/refundbalance <paymentId> [reason] — credit the refund to the user's balance"
+                    );
+                    return;
+                }
+
+                try {
+                    const { payment, refund, subscriptions } =
+                        await this.paymentService.refundPayment(
+                            paymentId,
+                            msg.from!.id,
+                            { reason: reason?.trim(), toBalance: !!toBalance }
+                        );
+
+                    await this.audit(msg.from!.id, "refund", {
+                        targetUserId: payment.userId,
+                        paymentId: payment.id,
+                        details: { method: refund.method, reason },
+                    });
+
+                    await this.notifyRefund(
+                        payment.user,
+                        refund.method,
+                        payment.isGift
+                            ? null
+                            : subscriptions.some(
+                                  (s) => s.status !== SubscriptionStatus.REVOKED
+                              )
+                    );
+
+                    const manualNote =
+                        refund.method === RefundMethod.MANUAL
+                            ? `\n⚠️ Send ${payment.amount} ${payment.currency.toUpperCase()} back to the user manually.`
+                            : refund.method === RefundMethod.BALANCE
+                            ? `\n💰 ${refund.amount} USD credited to the user's balance.`
+                            : "";
+
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        `✅ Payment ${payment.id} refunded.${manualNote}`
+                    );
+                } catch (error) {
+                    console.error("Error refunding payment:", error);
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        `❌ ${error.message}`
+                    );
+                }
+            }
+        );
+
+        // Принятие недоплаты по частично оплаченному платежу
+        this.adminCommand(/^\/accept(?:\s+(\S+))?$/, async (msg, match) => {
+            const paymentId = match[1];
+
+            if (!paymentId) {
+                await this.bot.sendMessage(
+                    msg.chat.id,
+                    "Usage: /accept <paymentId>"
+                );
+                return;
+            }
+
+            try {
+                const payment =
+                    await this.paymentService.acceptPartialPayment(paymentId);
+
+                await this.audit(msg.from!.id, "accept", {
+                    targetUserId: payment.userId,
+                    paymentId: payment.id,
+                });
+
+                await this.bot.sendMessage(
+                    msg.chat.id,
+                    `✅ Shortfall accepted, subscription activated for payment ${payment.id}.`
+                );
+            } catch (error) {
+                console.error("Error accepting partial payment:", error);
+                await this.bot.sendMessage(
+                    msg.chat.id,
+                    `❌ ${error.message}`
+                );
+            }
+        });
+
+        // Ручное завершение платежа, оплаченного вне бота
+        this.adminCommand(/^\/complete(?:\s+(\S+))?$/, async (msg, match) => {
+            const paymentId = match[1];
+
+            if (!paymentId) {
+                await this.bot.sendMessage(
+                    msg.chat.id,
+                    "Usage: /complete <paymentId>"
+                );
+                return;
+            }
+
+            try {
+                const payment =
+                    await this.paymentService.completePaymentManually(
+                        paymentId
+                    );
+
+                await this.audit(msg.from!.id, "complete", {
+                    targetUserId: payment.userId,
+                    paymentId: payment.id,
+                });
+
+                await this.bot.sendMessage(
+                    msg.chat.id,
+                    `✅ Payment ${payment.id} marked as completed, subscription activated.`
+                );
+            } catch (error) {
+                console.error("Error completing payment:", error);
+                await this.bot.sendMessage(
+                    msg.chat.id,
+                    `❌ ${error.message}`
+                );
+            }
+        });
+    }
+
+    // Команды управления пользователями и подписками
+    private setupUserHandlers() {
+        this.adminCommand(/^\/user(?:\s+(\S+))?$/, async (msg, match) => {
+            const user = match[1]
+                ? await this.userService.findUser(match[1])
+                : null;
+
+            if (!user) {
+                await this.bot.sendMessage(
+                    msg.chat.id,
+                    match[1]
+                        ? "❌ User not found"
+                        : "Usage: /user <telegramId|@username|userId>"
+                );
+                return;
+            }
+
+            await this.bot.sendMessage(
+                msg.chat.id,
+                await this.formatUserProfile(user)
+            );
+        });
+
+        this.adminCommand(
+            /^\/grant(?:\s+(\S+)\s+(\d+)(?:\s+(\S+))?)?$/,
+            async (msg, match) => {
+                const [, query, days, channelArg] = match;
+
+                if (!query) {
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        "Usage: /grant <user> <days> [channelId]\nThe channel is required when several channels are configured."
+                    );
+                    return;
+                }
+
+                const user = await this.userService.findUser(query);
+                const channel = await this.resolveChannel(channelArg);
+
+                if (!user || !channel) {
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        user ? "❌ Channel not found" : "❌ User not found"
+                    );
+                    return;
+                }
+
+                try {
+                    const [subscription] =
+                        await this.paymentService.grantAccess(
+                            user.id,
+                            channel,
+                            parseInt(days, 10)
+                        );
+
+                    await this.audit(msg.from!.id, "grant", {
+                        targetUserId: user.id,
+                        details: {
+                            days: parseInt(days, 10),
+                            channelId: channel.id,
+                        },
+                    });
+
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        `✅ Access to ${channel.title} granted until ${subscription.endDate.toISOString()}.`
+                    );
+                } catch (error) {
+                    console.error("Error granting access:", error);
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        `❌ ${error.message}`
+                    );
+                }
+            }
+        );
+
+        this.adminCommand(
+            /^\/extend(?:\s+(\S+)\s+(\d+)(?:\s+(\S+))?)?$/,
+            async (msg, match) => {
+                const [, query, days, channelArg] = match;
+
+                if (!query) {
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        "Usage: /extend <user> <days> [channelId]\nWithout a channel all active subscriptions are extended."
+                    );
+                    return;
+                }
+
+                const user = await this.userService.findUser(query);
+                const channel = channelArg
+                    ? await this.channelService.getChannel(channelArg)
+                    : null;
+
+                if (!user || (channelArg && !channel)) {
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        user ? "❌ Channel not found" : "❌ User not found"
+                    );
+                    return;
+                }
+
+                try {
+                    const subscriptions =
+                        await this.paymentService.extendAccess(
+                            user.id,
+                            parseInt(days, 10),
+                            channel || undefined
+                        );
+
+                    await this.audit(msg.from!.id, "extend", {
+                        targetUserId: user.id,
+                        details: {
+                            days: parseInt(days, 10),
+                            channelId: channel?.id ?? null,
+                        },
+                    });
+
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        `✅ Extended:\n${subscriptions
+                            .map(
+                                (subscription) =>
+                                    `${subscription.channel.title} → ${subscription.endDate.toISOString()}`
+                            )
+                            .join("\n")}`
+                    );
+                } catch (error) {
+                    console.error("Error extending access:", error);
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        `❌ ${error.message}`
+                    );
+                }
+            }
+        );
+
+        this.adminCommand(
+            /^\/revoke(?:\s+(\S+)(?:\s+(\S+))?)?$/,
+            async (msg, match) => {
+                const [, query, channelArg] = match;
+
+                if (!query) {
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        "Usage: /revoke <user> [channelId]\nWithout a channel access to all channels is revoked."
+                    );
+                    return;
+                }
+
+                const user = await this.userService.findUser(query);
+                const channel = channelArg
+                    ? await this.channelService.getChannel(channelArg)
+                    : null;
+
+                if (!user || (channelArg && !channel)) {
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        user ? "❌ Channel not found" : "❌ User not found"
+                    );
+                    return;
+                }
+
+                const subscriptions = await this.paymentService.revokeAccess(
+                    user.id,
+                    channel || undefined
+                );
+
+                if (subscriptions.length === 0) {
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        "❌ User has no active subscription"
+                    );
+                    return;
+                }
+
+                await this.audit(msg.from!.id, "revoke", {
+                    targetUserId: user.id,
+                    details: {
+                        channelId: channel?.id ?? null,
+                        subscriptionIds: subscriptions.map((s) => s.id),
+                    },
+                });
+
+                await this.bot.sendMessage(
+                    msg.chat.id,
+                    `✅ Access revoked: ${subscriptions
+                        .map((subscription) => subscription.channel.title)
+                        .join(", ")}`
+                );
+            }
+        );
+
+        // Корректировка баланса: отрицательная сумма списывает средства
+        this.adminCommand(
+            /^\/credit(?:\s+(\S+)\s+(-?\d+(?:\.\d{1,2})?)(?:\s+([\s\S]+))?)?$/,
+            async (msg, match) => {
+                const [, query, amountArg, reason] = match;
+                const amount = amountArg ? parseFloat(amountArg) : 0;
+
+                if (!query || amount === 0) {
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        "Usage: /credit <user> <amount USD> [reason]\nA negative amount debits the balance."
+                    );
+                    return;
+                }
+
+                const user = await this.userService.findUser(query);
+                if (!user) {
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        "❌ User not found"
+                    );
+                    return;
+                }
+
+                try {
+                    const entry = {
+                        userId: user.id,
+                        type: BalanceEntryType.ADJUSTMENT,
+                        amount: Math.abs(amount),
+                        adminTelegramId: msg.from!.id,
+                        description: reason?.trim(),
+                    };
+
+                    await this.prisma.$transaction((tx) =>
+                        amount > 0
+                            ? this.walletService.credit(tx, entry)
+                            : this.walletService.debit(tx, entry)
+                    );
+
+                    await this.audit(msg.from!.id, "credit", {
+                        targetUserId: user.id,
+                        details: { amount, reason: reason?.trim() ?? null },
+                    });
+
+                    if (amount > 0) {
+                        await this.notifyUser(user, "admin.credited", {
+                            amount: amount.toFixed(2),
+                            reason: reason
+                                ? t(getUserLocale(user), "admin.creditReason", {
+                                      reason: reason.trim(),
+                                  })
+                                : "",
+                        });
+                    }
+
+                    const balance = await this.walletService.getBalance(
+                        user.id
+                    );
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        `✅ Balance adjusted by ${amount.toFixed(
+                            2
+                        )} USD. New balance: ${balance.toFixed(2)} USD.`
+                    );
+                } catch (error) {
+                    console.error("Error adjusting balance:", error);
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        `❌ ${error.message}`
+                    );
+                }
+            }
+        );
+
+        this.adminCommand(
+            /^\/payment(?:\s+(\S+))?$/,
+            async (msg, match) => {
+                const paymentId = match[1];
+
+                if (!paymentId) {
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        "Usage: /payment <paymentId|NOWPayments id>"
+                    );
+                    return;
+                }
+
+                let payment = await this.prisma.payment.findFirst({
+                    where: {
+                        OR: [{ id: paymentId }, { cryptoTxHash: paymentId }],
+                    },
+                    include: { user: true, plan: true },
+                });
+
+                if (!payment) {
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        "❌ Payment not found"
+                    );
+                    return;
+                }
+
+                // Повторная сверка крипто-платежа с NOWPayments
+                let checkText = "";
+                if (payment.cryptoTxHash) {
+                    try {
+                        const result =
+                            await this.paymentService.checkCryptoPaymentStatus(
+                                payment.cryptoTxHash,
+                                PaymentEventSource.ADMIN
+                            );
+                        checkText = `\n\n🔄 NOWPayments: ${
+                            result.nowPayment.payment_status
+                        }${result.statusChanged ? " (status updated)" : ""}${
+                            result.remainingAmount
+                                ? `\nRemaining: ${result.remainingAmount} ${payment.currency.toUpperCase()}`
+                                : ""
+                        }`;
+
+                        if (result.statusChanged) {
+                            payment = { ...payment, ...result.payment };
+                        }
+                    } catch (error) {
+                        checkText = `\n\n❌ NOWPayments check failed: ${error.message}`;
+                    }
+
+                    await this.audit(msg.from!.id, "payment_recheck", {
+                        targetUserId: payment.userId,
+                        paymentId: payment.id,
+                    });
+                }
+
+                // Последние события журнала, включая только что записанное
+                const events = await this.prisma.paymentEvent.findMany({
+                    where: { paymentId: payment.id },
+                    orderBy: { createdAt: "desc" },
+                    take: 5,
+                });
+
+                await this.bot.sendMessage(
+                    msg.chat.id,
+                    `${this.formatPayment(payment, events)}${checkText}`
+                );
+            }
+        );
+    }
+
+    // Отчеты о выручке с выгрузкой платежей в CSV
+    private setupReportHandlers() {
+        this.adminCommand(
+            /^\/report(?:\s+([\s\S]+))?$/,
+            async (msg, match) => {
+                const range = this.parseReportRange(match[1]);
+
+                if (!range) {
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        "Usage: /report [from] [to] [day|week|month]\nDates are YYYY-MM-DD (UTC), both inclusive. Defaults to the current month."
+                    );
+                    return;
+                }
+
+                const report = await this.reportService.getRevenueReport(
+                    range.from,
+                    range.to,
+                    range.period
+                );
+                const fileName = `payments_${this.formatReportDate(
+                    range.from
+                )}_${this.formatReportDate(
+                    new Date(range.to.getTime() - DAY_MS)
+                )}.csv`;
+
+                await this.bot.sendMessage(
+                    msg.chat.id,
+                    this.formatReport(report)
+                );
+                await this.bot.sendDocument(
+                    msg.chat.id,
+                    Buffer.from(this.reportService.toCsv(report)),
+                    { caption: `${report.payments.length} payment(s)` },
+                    { filename: fileName, contentType: "text/csv" }
+                );
+
+                await this.audit(msg.from!.id, "report", {
+                    details: {
+                        from: range.from.toISOString(),
+                        to: range.to.toISOString(),
+                    },
+                });
+            }
+        );
+    }
+
+    /**
+     * Период отчета: "[from] [to] [day|week|month]"; to включительно.
+     * Группировка по умолчанию зависит от длины периода
+     */
+    private parseReportRange(
+        input = ""
+    ): { from: Date; to: Date; period: ReportPeriod } | null {
+        const args = input.trim().split(/\s+/).filter(Boolean);
+        let period: ReportPeriod | undefined;
+
+        const last = args[args.length - 1];
+
+        if (last && /^(day|week|month)$/i.test(last)) {
+            period = args.pop()!.toLowerCase() as ReportPeriod;
+        }
+
+        if (args.length > 2) {
+            return null;
+        }
+
+        const dates = args.map((arg) =>
+            /^\d{4}-\d{2}-\d{2}$/.test(arg)
+                ? new Date(`${arg}T00:00:00Z`)
+                : null
+        );
+        if (dates.some((date) => !date || isNaN(date.getTime()))) {
+            return null;
+        }
+
+        const now = new Date();
+        const today = new Date(
+            Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+        );
+        const from =
+            dates[0] ||
+            new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+        const to = new Date((dates[1] || today).getTime() + DAY_MS);
+
+        if (from >= to) {
+            return null;
+        }
+
+        const days = (to.getTime() - from.getTime()) / DAY_MS;
+        period ??= days <= 31 ? "day" : days <= 182 ? "week" : "month";
+
+        return { from, to, period };
+    }
+
+    private formatReport(report: RevenueReport): string {
+        const money = ({ stars, usd }: RevenueTotals) =>
+            `${stars}⭐ · $${usd.toFixed(2)}`;
+        const lines = [
+            `📊 Revenue report ${this.formatReportDate(
+                report.from
+            )} — ${this.formatReportDate(
+                new Date(report.to.getTime() - DAY_MS)
+            )}`,
+            "",
+            `Gross: ${money(report.gross)} (${report.gross.count} payments)`,
+            `Refunds: -${money(report.refunds)} (${report.refunds.count})`,
+            `Net: ${money(report.net)}`,
+        ];
+
+        // Возвраты за период вычитаются в каждой разбивке
+        const refundsText = ({ refunds }: RevenueSplit, usdOnly = false) =>
+            refunds.count > 0
+                ? ` (refunds -${
+                      usdOnly ? `$${refunds.usd.toFixed(2)}` : money(refunds)
+                  })`
+                : "";
+        const splitLine = (key: string, split: RevenueSplit) =>
+            `  ${key}: ${split.gross.count} · ${money(
+                netTotals(split)
+            )}${refundsText(split)}`;
+
+        const { balance } = report;
+        if (balance.gross.count > 0 || balance.refunds.count > 0) {
+            lines.push(
+                `Paid from balance (not in revenue): $${netTotals(
+                    balance
+                ).usd.toFixed(2)} (${balance.gross.count})${refundsText(
+                    balance,
+                    true
+                )}`
+            );
+        }
+
+        const section = (title: string, entries: string[]) => {
+            if (entries.length > 0) {
+                lines.push("", `${title}:`, ...entries);
+            }
+        };
+
+        section(
+            "By method",
+            Object.entries(report.byMethod).map(([method, split]) =>
+                splitLine(method, split)
+            )
+        );
+        section(
+            "By plan",
+            Object.entries(report.byPlan).map(([plan, split]) =>
+                splitLine(plan, split)
+            )
+        );
+        section(
+            "By currency",
+            Object.entries(report.byCurrency).map(([currency, split]) =>
+                currency === "XTR" || currency === "USD"
+                    ? splitLine(currency, split)
+                    : `  ${currency.toUpperCase()}: ${
+                          split.gross.count
+                      } · $${netTotals(split).usd.toFixed(
+                          2
+                      )} (received ${Number(
+                          split.received.toFixed(8)
+                      )})${refundsText(split, true)}`
+            )
+        );
+        section(
+            `By ${report.period}`,
+            Object.keys(report.byPeriod)
+                .sort()
+                .map((key) => splitLine(key, report.byPeriod[key]))
+        );
+
+        const text = lines.join("\n");
+
+        return text.length > MAX_MESSAGE_LENGTH
+            ? `${text.slice(
+                  0,
+                  MAX_MESSAGE_LENGTH - 30
+              )}\n…\n(truncated, see CSV)`
+            : text;
+    }
+
+    private formatReportDate(date: Date): string {
+        return date.toISOString().slice(0, 10);
+    }
+
+    // Рассылки по сегментам пользователей
+    private setupBroadcastHandlers() {
+        this.adminCommand(
+            /^\/broadcast(?:\s+(\S+))?$/,
+            async (msg, match) => {
+                const segmentName = match[1]?.toLowerCase();
+                const segment = BROADCAST_SEGMENTS[segmentName];
+
+                if (!segment) {
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        "Usage: /broadcast <all|active|expired|unpaid>"
+                    );
+                    return;
+                }
+
+                const count = await this.broadcastService.countRecipients(
+                    segment
+                );
+
+                await this.bot.sendMessage(
+                    msg.chat.id,
+                    `${BROADCAST_PROMPT} ${segmentName} (${count} recipients)\n\nReply with the text, photo or video to send. Add buttons as lines like [Open](https://example.com) at the end of the text.`,
+                    { reply_markup: { force_reply: true } }
+                );
+            }
+        );
+
+        // Ответ администратора на запрос содержимого рассылки
+        this.bot.on("message", async (msg) => {
+            const prompt = msg.reply_to_message?.text;
+
+            if (
+                !prompt?.startsWith(BROADCAST_PROMPT) ||
+                !msg.from ||
+                !isAdmin(msg.from.id)
+            ) {
+                return;
+            }
+
+            const segmentName = prompt
+                .slice(BROADCAST_PROMPT.length)
+                .trim()
+                .split(/\s/)[0];
+            const segment = BROADCAST_SEGMENTS[segmentName];
+            const { text, buttons } = this.parseBroadcastButtons(
+                msg.text ?? msg.caption ?? ""
+            );
+            const mediaType = msg.photo
+                ? BroadcastMediaType.PHOTO
+                : msg.video
+                ? BroadcastMediaType.VIDEO
+                : undefined;
+            const mediaFileId = msg.photo
+                ? msg.photo[msg.photo.length - 1].file_id
+                : msg.video?.file_id;
+
+            if (!segment || (!text && !mediaFileId)) {
+                await this.bot.sendMessage(
+                    msg.chat.id,
+                    "❌ Send text, a photo or a video."
+                );
+                return;
+            }
+
+            try {
+                const broadcast = await this.broadcastService.createDraft({
+                    adminTelegramId: msg.from.id,
+                    segment,
+                    text: text || undefined,
+                    mediaType,
+                    mediaFileId,
+                    buttons,
+                });
+                const count = await this.broadcastService.countRecipients(
+                    segment
+                );
+
+                // Предпросмотр — ровно то, что получат пользователи
+                await this.broadcastService.deliver(msg.chat.id, broadcast);
+                await this.bot.sendMessage(
+                    msg.chat.id,
+                    `👆 Preview. Segment: ${segmentName}, recipients: ${count}.\nSend this broadcast?`,
+                    {
+                        reply_markup: {
+                            inline_keyboard: [
+                                [
+                                    {
+                                        text: "✅ Send",
+                                        callback_data: `broadcast_send_${broadcast.id}`,
+                                    },
+                                    {
+                                        text: "❌ Cancel",
+                                        callback_data: `broadcast_cancel_${broadcast.id}`,
+                                    },
+                                ],
+                            ],
+                        },
+                    }
+                );
+            } catch (error) {
+                console.error("Error creating broadcast:", error);
+                await this.bot.sendMessage(
+                    msg.chat.id,
+                    `❌ ${error.message}`
+                );
+            }
+        });
+
+        // Подтверждение или отмена рассылки
+        this.bot.on("callback_query", async (query) => {
+            if (!query.data?.startsWith("broadcast_")) return;
+            if (!isAdmin(query.from.id)) return;
+
+            const [, action, broadcastId] = query.data.split("_");
+            let answered = false;
+
+            try {
+                const done =
+                    action === "send"
+                        ? await this.broadcastService.start(broadcastId)
+                        : await this.broadcastService.cancel(broadcastId);
+
+                if (!done) {
+                    await this.bot.answerCallbackQuery(query.id, {
+                        text: "This broadcast was already sent or cancelled.",
+                        show_alert: true,
+                    });
+                    return;
+                }
+
+                await this.audit(query.from.id, `broadcast_${action}`, {
+                    details: { broadcastId },
+                });
+
+                await this.bot.answerCallbackQuery(query.id);
+                answered = true;
+
+                await this.bot.editMessageText(
+                    action === "send"
+                        ? `📣 Broadcast ${broadcastId} is being sent. You will get a report when it is done. Stop it with /stopbroadcast ${broadcastId}`
+                        : `❌ Broadcast ${broadcastId} cancelled.`,
+                    {
+                        chat_id: query.message!.chat.id,
+                        message_id: query.message!.message_id,
+                    }
+                );
+            } catch (error) {
+                console.error("Error handling broadcast action:", error);
+
+                try {
+                    // Ответ на запрос уже отправлен — сообщаем в чат
+                    if (answered) {
+                        await this.bot.sendMessage(
+                            query.message!.chat.id,
+                            `❌ ${error.message}`
+                        );
+                    } else {
+                        await this.bot.answerCallbackQuery(query.id, {
+                            text: `❌ ${error.message}`,
+                            show_alert: true,
+                        });
+                    }
+                } catch (answerError) {
+                    console.log(
+                        "Could not report broadcast action error:",
+                        answerError.message
+                    );
+                }
+            }
+        });
+
+        this.adminCommand(
+            /^\/stopbroadcast(?:\s+(\S+))?$/,
+            async (msg, match) => {
+                const broadcastId = match[1];
+
+                if (!broadcastId) {
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        "Usage: /stopbroadcast <broadcastId>"
+                    );
+                    return;
+                }
+
+                if (!(await this.broadcastService.cancel(broadcastId))) {
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        "❌ Broadcast not found or already finished"
+                    );
+                    return;
+                }
+
+                await this.audit(msg.from!.id, "broadcast_cancel", {
+                    details: { broadcastId },
+                });
+                await this.bot.sendMessage(
+                    msg.chat.id,
+                    `✅ Broadcast ${broadcastId} stopped.`
+                );
+            }
+        );
+
+        this.adminCommand(/^\/broadcasts$/, async (msg) => {
+            const broadcasts =
+                await this.broadcastService.getRecentBroadcasts();
+
+            if (broadcasts.length === 0) {
+                await this.bot.sendMessage(msg.chat.id, "No broadcasts yet.");
+                return;
+            }
+
+            await this.bot.sendMessage(
+                msg.chat.id,
+                broadcasts
+                    .map(
+                        (broadcast) =>
+                            `${broadcast.id} · ${broadcast.segment} · ${broadcast.status} · ✅ ${broadcast.deliveredCount} ❌ ${broadcast.failedCount} 🚫 ${broadcast.blockedCount}`
+                    )
+                    .join("\n")
+            );
+        });
+    }
+
+    // Команды управления каталогом планов
+    private setupPlanHandlers() {
+        this.adminCommand(/^\/plans$/, async (msg) => {
+            const plans = await this.planService.getAllPlans();
+
+            if (plans.length === 0) {
+                await this.bot.sendMessage(msg.chat.id, "No plans yet.");
+                return;
+            }
+
+            await this.bot.sendMessage(
+                msg.chat.id,
+                plans.map((plan) => this.formatPlan(plan)).join("\n")
+            );
+        });
+
+        this.adminCommand(
+            /^\/addplan(?:\s+(\S+)\s+(\d+)\s+([\d.]+)\s+(.+))?$/,
+            async (msg, match) => {
+                const [, duration, stars, usd, name] = match;
+                const durationSeconds = duration
+                    ? PlanService.parseDuration(duration)
+                    : null;
+
+                if (!durationSeconds) {
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        "Usage: /addplan <duration: 30d|12h|15m> <stars> <usd> <name>"
+                    );
+                    return;
+                }
+
+                const plans = await this.planService.getAllPlans();
+                const plan = await this.planService.createPlan({
+                    name: name.trim(),
+                    durationSeconds,
+                    starsPrice: parseInt(stars, 10),
+                    usdPrice: parseFloat(usd),
+                    sortOrder: plans.length + 1,
+                });
+
+                // С одним каналом план сразу продает его
+                const channels = await this.channelService.getActiveChannels();
+                if (channels.length === 1) {
+                    await this.channelService.setPlanChannels(plan.id, [
+                        channels[0].id,
+                    ]);
+                }
+
+                await this.audit(msg.from!.id, "addplan", {
+                    details: { planId: plan.id, name: plan.name },
+                });
+                await this.bot.sendMessage(
+                    msg.chat.id,
+                    `✅ Plan created:\n${this.formatPlan(plan)}${
+                        channels.length === 1
+                            ? ""
+                            : `\nLink it to channels with /planchannels ${plan.id} <channelId,channelId>`
+                    }`
+                );
+            }
+        );
+
+        this.adminCommand(
+            /^\/editplan(?:\s+(\S+)\s+(\S+)\s+(.+))?$/,
+            async (msg, match) => {
+                const [, planId, field, value] = match;
+                // name:<язык> — перевод названия, например name:ru
+                const locale = /^name:(\w+)$/.exec(field || "")?.[1];
+                const data =
+                    field && !locale ? this.parsePlanField(field, value) : null;
+
+                if (!data && !isLocale(locale)) {
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        `Usage: /editplan <planId> <name|duration|stars|usd|order> <value>\nTranslated name: /editplan <planId> name:<${LOCALES.join(
+                            "|"
+                        )}> <value>`
+                    );
+                    return;
+                }
+
+                try {
+                    const plan = data
+                        ? await this.planService.updatePlan(planId, data)
+                        : await this.planService.setPlanNameTranslation(
+                              planId,
+                              locale!,
+                              value.trim()
+                          );
+                    await this.audit(msg.from!.id, "editplan", {
+                        details: { planId: plan.id, field, value },
+                    });
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        `✅ Plan updated:\n${this.formatPlan(plan)}`
+                    );
+                } catch (error) {
+                    console.error("Error updating plan:", error);
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        "❌ Plan not found"
+                    );
+                }
+            }
+        );
+
+        this.adminCommand(
+            /^\/(hide|show)plan(?:\s+(\S+))?$/,
+            async (msg, match) => {
+                const [, action, planId] = match;
+
+                if (!planId) {
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        `Usage: /${action}plan <planId>`
+                    );
+                    return;
+                }
+
+                try {
+                    const plan = await this.planService.setPlanActive(
+                        planId,
+                        action === "show"
+                    );
+                    await this.audit(msg.from!.id, `${action}plan`, {
+                        details: { planId: plan.id },
+                    });
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        `✅ ${this.formatPlan(plan)}`
+                    );
+                } catch (error) {
+                    console.error("Error changing plan visibility:", error);
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        "❌ Plan not found"
+                    );
+                }
+            }
+        );
+    }
+
+    // Команды управления каналами и пакетами
+    private setupChannelHandlers() {
+        this.adminCommand(/^\/channels$/, async (msg) => {
+            const channels = await this.channelService.getAllChannels();
+
+            if (channels.length === 0) {
+                await this.bot.sendMessage(msg.chat.id, "No channels yet.");
+                return;
+            }
+
+            await this.bot.sendMessage(
+                msg.chat.id,
+                channels.map((channel) => this.formatChannel(channel)).join("\n")
+            );
+        });
+
+        this.adminCommand(
+            /^\/addchannel(?:\s+(-?\d+)\s+(.+))?$/,
+            async (msg, match) => {
+                const [, chatId, title] = match;
+
+                if (!chatId) {
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        "Usage: /addchannel <chatId> <title>\nThe bot must be an admin of the channel or group."
+                    );
+                    return;
+                }
+
+                try {
+                    const channel = await this.channelService.createChannel(
+                        chatId,
+                        title.trim()
+                    );
+                    await this.audit(msg.from!.id, "addchannel", {
+                        details: {
+                            channelId: channel.id,
+                            telegramChatId: channel.telegramChatId,
+                        },
+                    });
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        `✅ Channel added:\n${this.formatChannel(channel)}`
+                    );
+                } catch (error) {
+                    console.error("Error adding channel:", error);
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        "❌ Channel already exists"
+                    );
+                }
+            }
+        );
+
+        this.adminCommand(
+            /^\/(hide|show)channel(?:\s+(\S+))?$/,
+            async (msg, match) => {
+                const [, action, channelId] = match;
+
+                if (!channelId) {
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        `Usage: /${action}channel <channelId>`
+                    );
+                    return;
+                }
+
+                try {
+                    const channel = await this.channelService.setChannelActive(
+                        channelId,
+                        action === "show"
+                    );
+                    await this.audit(msg.from!.id, `${action}channel`, {
+                        details: { channelId: channel.id },
+                    });
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        `✅ ${this.formatChannel(channel)}`
+                    );
+                } catch (error) {
+                    console.error("Error changing channel visibility:", error);
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        "❌ Channel not found"
+                    );
+                }
+            }
+        );
+
+        // Один канал — обычный план, несколько — пакет
+        this.adminCommand(
+            /^\/planchannels(?:\s+(\S+)\s+(\S+))?$/,
+            async (msg, match) => {
+                const [, planId, list] = match;
+
+                if (!planId) {
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        "Usage: /planchannels <planId> <channelId,channelId>\nSeveral channels make the plan a bundle."
+                    );
+                    return;
+                }
+
+                const plan = await this.planService.getPlan(planId);
+                const channelIds = list.split(",").filter(Boolean);
+                const channels = await Promise.all(
+                    channelIds.map((id) => this.channelService.getChannel(id))
+                );
+
+                if (!plan || channels.some((channel) => !channel)) {
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        "❌ Plan or channel not found"
+                    );
+                    return;
+                }
+
+                await this.channelService.setPlanChannels(planId, channelIds);
+                await this.audit(msg.from!.id, "planchannels", {
+                    details: { planId, channelIds },
+                });
+                await this.bot.sendMessage(
+                    msg.chat.id,
+                    `✅ ${plan.name} now grants: ${channels
+                        .map((channel) => channel!.title)
+                        .join(", ")}`
+                );
+            }
+        );
+    }
+
+    // Учет участников каналов и проверка доступа без подписки
+    private setupMembershipHandlers() {
+        this.bot.on("chat_member", async (update) => {
+            try {
+                await this.membershipService.handleChatMemberUpdate(update);
+            } catch (error) {
+                console.error("Error tracking channel member:", error);
+            }
+        });
+
+        this.adminCommand(
+            /^\/memberaudit(?:\s+(\S+))?$/,
+            async (msg, match) => {
+                const [, option] = match;
+
+                if (option && option !== "remove") {
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        "Usage: /memberaudit [remove]\nLists channel members without an active subscription; \"remove\" also removes them. Only members who joined while the bot was a channel admin are known."
+                    );
+                    return;
+                }
+
+                const remove = option === "remove";
+
+                try {
+                    const result = await this.membershipService.audit(remove);
+
+                    if (!result) {
+                        await this.bot.sendMessage(
+                            msg.chat.id,
+                            "⏳ An audit is already running, try again later."
+                        );
+                        return;
+                    }
+
+                    await this.audit(msg.from!.id, "memberaudit", {
+                        details: {
+                            remove,
+                            unauthorized: result.unauthorized,
+                            removed: result.removed,
+                        },
+                    });
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        this.membershipService.formatAuditResult(result)
+                    );
+                } catch (error) {
+                    console.error("Error auditing channel members:", error);
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        "❌ Error auditing channel members"
+                    );
+                }
+            }
+        );
+    }
+
+    // Команды управления промокодами
+    private setupCouponHandlers() {
+        this.adminCommand(
+            /^\/addcoupon(?:\s+(\S+)\s+(\d+(?:\.\d+)?%?)((?:\s+\w+=\S+)*))?$/,
+            async (msg, match) => {
+                const [, code, discount, options] = match;
+                const data = code
+                    ? this.parseCouponInput(code, discount, options)
+                    : null;
+
+                if (!data) {
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        "Usage: /addcoupon <CODE> <20%|5> [plans=id,id] [max=N] [peruser=N] [expires=YYYY-MM-DD]\nA number without % is a fixed discount in USD."
+                    );
+                    return;
+                }
+
+                try {
+                    const coupon = await this.couponService.createCoupon(data);
+                    await this.audit(msg.from!.id, "addcoupon", {
+                        details: { code: coupon.code },
+                    });
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        `✅ Promo code ${coupon.code} created.`
+                    );
+                } catch (error) {
+                    console.error("Error creating coupon:", error);
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        "❌ Could not create promo code (maybe the code already exists)."
+                    );
+                }
+            }
+        );
+
+        this.adminCommand(
+            /^\/disablecoupon(?:\s+(\S+))?$/,
+            async (msg, match) => {
+                if (!match[1]) {
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        "Usage: /disablecoupon <CODE>"
+                    );
+                    return;
+                }
+
+                try {
+                    const coupon = await this.couponService.disableCoupon(
+                        match[1]
+                    );
+                    await this.audit(msg.from!.id, "disablecoupon", {
+                        details: { code: coupon.code },
+                    });
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        `✅ Promo code ${coupon.code} disabled.`
+                    );
+                } catch (error) {
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        "❌ Promo code not found"
+                    );
+                }
+            }
+        );
+
+        // Статистика использования промокодов
+        this.adminCommand(/^\/coupons$/, async (msg) => {
+            const stats = await this.couponService.getRedemptionStats();
+
+            if (stats.length === 0) {
+                await this.bot.sendMessage(msg.chat.id, "No promo codes yet.");
+                return;
+            }
+
+            const lines = stats.map(
+                ({ coupon, uses, starsDiscount, usdDiscount }) => {
+                    const discount =
+                        coupon.discountType === DiscountType.PERCENT
+                            ? `${coupon.discountValue}%`
+                            : `$${coupon.discountValue}`;
+                    const limit = coupon.maxUses ? `/${coupon.maxUses}` : "";
+                    const expires = coupon.expiresAt
+                        ? ` · until ${coupon.expiresAt.toISOString().slice(0, 10)}`
+                        : "";
+
+                    return `${coupon.isActive ? "🟢" : "⚪️"} ${
+                        coupon.code
+                    } · -${discount} · used ${uses}${limit}${expires}\n    discounts given: ${starsDiscount}⭐ / $${usdDiscount.toFixed(
+                        2
+                    )}`;
+                }
+            );
+
+            await this.bot.sendMessage(msg.chat.id, lines.join("\n"));
+        });
+    }
+
+    private parseCouponInput(
+        code: string,
+        discount: string,
+        options: string
+    ): CouponInput | null {
+        const isPercent = discount.endsWith("%");
+        const discountValue = parseFloat(discount);
+
+        if (!(discountValue > 0) || (isPercent && discountValue > 100)) {
+            return null;
+        }
+
+        const data: CouponInput = {
+            code,
+            discountType: isPercent ? DiscountType.PERCENT : DiscountType.FIXED,
+            discountValue,
+        };
+
+        for (const option of (options || "").trim().split(/\s+/)) {
+            if (!option) continue;
+            const [key, value] = option.split("=");
+
+            switch (key) {
+                case "plans":
+                    data.planIds = value.split(",").filter(Boolean);
+                    break;
+                case "max":
+                    data.maxUses = parseInt(value, 10);
+                    break;
+                case "peruser":
+                    data.perUserLimit = parseInt(value, 10);
+                    break;
+                case "expires": {
+                    const expiresAt = new Date(value);
+                    if (isNaN(expiresAt.getTime())) return null;
+                    data.expiresAt = expiresAt;
+                    break;
+                }
+                default:
+                    return null;
+            }
+        }
+
+        if (
+            (data.maxUses !== undefined && !(data.maxUses > 0)) ||
+            (data.perUserLimit !== undefined && !(data.perUserLimit > 0))
+        ) {
+            return null;
+        }
+
+        return data;
+    }
+
+    private parsePlanField(
+        field: string,
+        value: string
+    ): Partial<PlanInput> | null {
+        value = value.trim();
+
+        switch (field) {
+            case "name":
+                return { name: value };
+            case "duration": {
+                const durationSeconds = PlanService.parseDuration(value);
+                return durationSeconds ? { durationSeconds } : null;
+            }
+            case "stars": {
+                const starsPrice = parseInt(value, 10);
+                return starsPrice > 0 ? { starsPrice } : null;
+            }
+            case "usd": {
+                const usdPrice = parseFloat(value);
+                return usdPrice > 0 ? { usdPrice } : null;
+            }
+            case "order": {
+                const sortOrder = parseInt(value, 10);
+                return isNaN(sortOrder) ? null : { sortOrder };
+            }
+            default:
+                return null;
+        }
+    }
+
+    private formatPlan(plan: Plan | PlanWithChannels): string {
+        const channelsText =
+            "channels" in plan
+                ? ` · 📢 ${
+                      plan.channels
+                          .map((link) => link.channel.title)
+                          .join(" + ") || "no channels"
+                  }`
+                : "";
+
+        const translations = Object.entries(
+            (plan.nameTranslations || {}) as Record<string, string>
+        );
+        const translationsText = translations.length
+            ? ` · 🌐 ${translations
+                  .map(([locale, name]) => `${locale}: ${name}`)
+                  .join(", ")}`
+            : "";
+
+        return `${plan.isActive ? "🟢" : "⚪️"} ${plan.id} · ${
+            plan.name
+        }${translationsText} · ${PlanService.formatDuration(
+            plan.durationSeconds
+        )} · ${plan.starsPrice}⭐ · $${plan.usdPrice} · #${
+            plan.sortOrder
+        }${channelsText}`;
+    }
+
+    private formatPayment(
+        payment: Payment & { user: User; plan: Plan },
+        events: PaymentEvent[] = []
+    ): string {
+        const lines = [
+            `💳 Payment ${payment.id}`,
+            `Status: ${payment.status}`,
+            `User: ${payment.user.telegramId}${
+                payment.user.username ? ` (@${payment.user.username})` : ""
+            }`,
+            `Plan: ${payment.plan.name}${payment.isGift ? " (gift)" : ""}`,
+            `Amount: ${payment.amount} ${payment.currency.toUpperCase()}`,
+            `Type: ${payment.paymentType}`,
+            `Created: ${payment.createdAt.toISOString()}`,
+        ];
+
+        if (payment.cryptoTxHash) {
+            lines.push(`NOWPayments id: ${payment.cryptoTxHash}`);
+            lines.push(
+                `Paid: ${payment.actuallyPaid ?? 0} / ${payment.expectedAmount}`
+            );
+        }
+        if (payment.telegramPaymentChargeId) {
+            lines.push(`Charge id: ${payment.telegramPaymentChargeId}`);
+        }
+        if (events.length > 0) {
+            lines.push("", "Recent events:");
+            for (const event of events) {
+                const transition = event.toStatus
+                    ? `${event.fromStatus ?? "new"} → ${event.toStatus}`
+                    : `${event.fromStatus} (no change)`;
+                lines.push(
+                    `  ${event.createdAt.toISOString()} ${event.source}${
+                        event.providerStatus ? ` [${event.providerStatus}]` : ""
+                    }: ${transition}`
+                );
+            }
+        }
+
+        return lines.join("\n");
+    }
+
+    private async formatUserProfile(user: User): Promise<string> {
+        const [subscriptions, payments, actions] = await Promise.all([
+            this.prisma.subscription.findMany({
+                where: { userId: user.id },
+                include: { channel: true, plan: true },
+                orderBy: { endDate: "desc" },
+                take: 10,
+            }),
+            this.prisma.payment.findMany({
+                where: { userId: user.id },
+                orderBy: { createdAt: "desc" },
+                take: 10,
+            }),
+            this.auditService.getUserActions(user.id),
+        ]);
+
+        const lines = [
+            `👤 User ${user.id}`,
+            `Telegram: ${user.telegramId}${
+                user.username ? ` (@${user.username})` : ""
+            }`,
+            `Name: ${[user.firstName, user.lastName].filter(Boolean).join(" ")}`,
+            `Joined: ${user.createdAt.toISOString()}`,
+            `Trial used: ${user.trialUsedAt?.toISOString() || "no"}`,
+            `Balance: ${Number(user.balance).toFixed(2)} USD`,
+            "",
+            "📢 Subscriptions:",
+            ...(subscriptions.length
+                ? subscriptions.map(
+                      (subscription) =>
+                          `${SUBSCRIPTION_STATUS_EMOJI[subscription.status]} ${
+                              subscription.channel.title
+                          } · ${
+                              subscription.isTrial
+                                  ? "Free trial"
+                                  : subscription.plan?.name || "Bonus access"
+                          } · ${subscription.startDate.toISOString()} → ${subscription.endDate.toISOString()}`
+                  )
+                : ["none"]),
+            "",
+            "💳 Payments:",
+            ...(payments.length
+                ? payments.map(
+                      (payment) =>
+                          `${payment.id} · ${payment.status} · ${
+                              payment.amount
+                          } ${payment.currency.toUpperCase()} · ${payment.createdAt.toISOString()}`
+                  )
+                : ["none"]),
+        ];
+
+        if (actions.length) {
+            lines.push(
+                "",
+                "📝 Admin actions:",
+                ...actions.map(
+                    (action) =>
+                        `${action.createdAt.toISOString()} · ${action.action} by ${action.adminTelegramId}`
+                )
+            );
+        }
+
+        return lines.join("\n");
+    }
+
+    private formatChannel(channel: Channel): string {
+        return `${channel.isActive ? "🟢" : "⚪️"} ${channel.id} · ${
+            channel.title
+        } · ${channel.telegramChatId} · #${channel.sortOrder}`;
+    }
+
+    // Уведомление пользователя о возврате
+    private async notifyRefund(
+        user: User,
+        method: RefundMethod,
+        subscriptionActive: boolean | null // null — возврат за подарок
+    ) {
+        const locale = getUserLocale(user);
+
+        await this.notifyUser(user, "refund.message", {
+            method: t(
+                locale,
+                method === RefundMethod.TELEGRAM_STARS
+                    ? "refund.stars"
+                    : method === RefundMethod.BALANCE
+                    ? "refund.balance"
+                    : "refund.manual"
+            ),
+            access: t(
+                locale,
+                subscriptionActive === null
+                    ? "refund.giftCancelled"
+                    : subscriptionActive
+                    ? "refund.shortened"
+                    : "refund.revoked"
+            ),
+        });
+    }
+
+    // Кнопки рассылки — строки вида [Текст](https://...) в конце сообщения
+    private parseBroadcastButtons(input: string): {
+        text: string;
+        buttons: BroadcastButton[];
+    } {
+        const lines = input.trim().split("\n");
+        const buttons: BroadcastButton[] = [];
+
+        while (lines.length > 0) {
+            const match = /^\[([^\]]+)\]\((https?:\/\/\S+)\)$/.exec(
+                lines[lines.length - 1].trim()
+            );
+            if (!match) break;
+
+            buttons.unshift({ text: match[1], url: match[2] });
+            lines.pop();
+        }
+
+        return { text: lines.join("\n").trim(), buttons };
+    }
+
+    // Канал из аргумента команды или единственный активный канал
+    private async resolveChannel(channelId?: string): Promise<Channel | null> {
+        if (channelId) {
+            return this.channelService.getChannel(channelId);
+        }
+
+        const channels = await this.channelService.getActiveChannels();
+        return channels.length === 1 ? channels[0] : null;
+    }
+
+    // Запись действия администратора в журнал
+    private async audit(
+        adminTelegramId: number,
+        action: string,
+        entry: {
+            targetUserId?: string;
+            paymentId?: string;
+            details?: Prisma.InputJsonValue;
+        } = {}
+    ) {
+        try {
+            await this.auditService.record({
+                adminTelegramId,
+                action,
+                ...entry,
+            });
+        } catch (error) {
+            console.error(`Error writing audit record for ${action}:`, error);
+        }
+    }
+
+    // Уведомление пользователя на его языке
+    private async notifyUser(
+        user: User,
+        key: MessageKey,
+        params: Record<string, string | number> = {},
+        keyboard?: TelegramBot.InlineKeyboardMarkup
+    ) {
+        try {
+            await this.bot.sendMessage(
+                Number(user.telegramId),
+                t(getUserLocale(user), key, params),
+                keyboard ? { reply_markup: keyboard } : {}
+            );
+        } catch (error) {
+            console.log(
+                `Could not send admin notification to user ${user.telegramId}:`,
+                error.message
+            );
+        }
+    }
+
+    // Регистрация команды, доступной только администраторам; ошибка
+    // команды возвращается администратору ответом
+    private adminCommand(
+        regexp: RegExp,
+        callback: (
+            msg: TelegramBot.Message,
+            match: RegExpExecArray
+        ) => Promise<void>
+    ) {
+        this.bot.onText(regexp, async (msg, match) => {
+            if (!msg.from || !isAdmin(msg.from.id)) return;
+
+            try {
+                await callback(msg, match!);
+            } catch (error) {
+                console.error(`Admin command ${regexp} failed:`, error);
+
+                try {
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        `❌ ${error.message}`
+                    );
+                } catch (sendError) {
+                    console.log(
+                        "Could not send admin command error:",
+                        sendError.message
+                    );
+                }
+            }
+        });
+    }
+}
@@ -1,174 +1,275 @@
 import TelegramBot from "node-telegram-bot-api";
-import { PaymentService } from "../services/PaymentService";
-import { PrismaClient, PlanType } from "@prisma/client";
+import {
+    PaymentService,
+    PaymentOptions,
+    STARS_SUBSCRIPTION_PERIOD,
+} from "../services/PaymentService";
+import { PlanService } from "../services/PlanService";
+import { CouponService } from "../services/CouponService";
+import { UserService } from "../services/UserService";
+import {
+    SubscriptionService,
+    ACCESS_STATUSES,
+} from "../services/SubscriptionService";
+import { GiftService, GIFT_PAYLOAD_PREFIX } from "../services/GiftService";
+import { ChannelService } from "../services/ChannelService";
+import { WalletService } from "../services/WalletService";
+import { AutoRenewService } from "../services/AutoRenewService";
+import { InviteLinkService } from "../services/InviteLinkService";
+import {
+    ReferralService,
+    REFERRAL_PAYLOAD_PREFIX,
+} from "../services/ReferralService";
+import {
+    AutoRenewMethod,
+    Channel,
+    PaymentEventSource,
+    PrismaClient,
+    SubscriptionStatus,
+    User,
+} from "@prisma/client";
+import {
+    getAdminIds,
+    getCryptoCurrencyInfo,
+    DEFAULT_CRYPTO_CURRENCY,
+} from "../config";
+import {
+    allTranslations,
+    buttonPattern,
+    formatDate,
+    getDefaultLocale,
+    getUserLocale,
+    isLocale,
+    isMessageKey,
+    Locale,
+    LOCALE_NAMES,
+    LOCALES,
+    MessageKey,
+    planName,
+    resolveLocale,
+    t,
+} from "../i18n";
+
+// Команды меню бота, описания берутся из каталога текстов
+const BOT_COMMANDS = [
+    "start",
+    "mysubscription",
+    "check",
+    "promo",
+    "referrals",
+    "balance",
+    "history",
+    "cancelrenewal",
+    "language",
+] as const;
 
 export class PaymentHandlers {
+    private botUsername?: string;
+
     constructor(
         private bot: TelegramBot,
         private paymentService: PaymentService,
-        private prisma: PrismaClient
+        private prisma: PrismaClient,
+        private planService: PlanService,
+        private couponService: CouponService,
+        private userService: UserService,
+        private referralService: ReferralService,
+        private subscriptionService: SubscriptionService,
+        private giftService: GiftService,
+        private channelService: ChannelService,
+        private walletService: WalletService,
+        private autoRenewService: AutoRenewService,
+        private inviteLinkService: InviteLinkService
     ) {
         this.setupHandlers();
     }
 
     private setupHandlers() {
-        this.bot.setMyCommands([
-            {
-                command: "start",
-                description: "Subscribe to the channel",
-            },
-            {
-                command: "check",
-                description: "Check payment status",
-            },
-        ]);
+        this.setupCommands();
 
-        this.bot.onText(/^(📋\s*)?Price$/i, async (msg) => {
-            const keyboard = {
-                inline_keyboard: [
-                    [{ text: "📅 For a day", callback_data: "plan_DAY" }],
-                    [{ text: "📅 For a week", callback_data: "plan_WEEK" }],
-                    [{ text: "📅 For a month", callback_data: "plan_MONTH" }],
-                ],
-            };
+        this.bot.onText(buttonPattern("menu.price"), async (msg) => {
+            const userId = await this.getOrCreateUser(msg.from!);
+            const locale = await this.userService.getLocale(userId);
+            const keyboard = await this.buildPlanKeyboard(locale);
             await this.bot.sendMessage(
                 msg.chat.id,
-                `Select a subscription plan:`,
+                t(locale, "plans.select"),
                 { reply_markup: keyboard }
             );
         });
 
-        // Handler for "My Subscription" button
-        this.bot.onText(/^(👤\s*)?My Subscription$/i, async (msg) => {
-            try {
-                const userId = await this.getOrCreateUser(msg.from!);
+        // Handler for "My Subscription" button and /mysubscription
+        this.bot.onText(
+            buttonPattern("menu.mySubscription", "/mysubscription"),
+            async (msg) => {
+                let locale = getDefaultLocale();
+                try {
+                    const userId = await this.getOrCreateUser(msg.from!);
+                    locale = await this.userService.getLocale(userId);
+
+                    // Get active subscriptions (including grace period)
+                    const activeSubscriptions =
+                        await this.prisma.subscription.findMany({
+                            where: {
+                                userId: userId,
+                                status: { in: ACCESS_STATUSES },
+                            },
+                            include: {
+                                payment: true,
+                                plan: true,
+                                channel: true,
+                            },
+                            orderBy: {
+                                endDate: "desc",
+                            },
+                        });
 
-                // Get active subscriptions
-                const activeSubscriptions =
-                    await this.prisma.subscription.findMany({
+                    // Get recent payments
+                    const recentPayments = await this.prisma.payment.findMany({
                         where: {
                             userId: userId,
-                            isActive: true,
-                            endDate: { gte: new Date() },
-                        },
-                        include: {
-                            payment: true,
                         },
                         orderBy: {
-                            endDate: "desc",
+                            createdAt: "desc",
                         },
+                        take: 3,
                     });
 
-                // Get recent payments
-                const recentPayments = await this.prisma.payment.findMany({
-                    where: {
-                        userId: userId,
-                    },
-                    orderBy: {
-                        createdAt: "desc",
-                    },
-                    take: 3,
-                });
-
-                if (activeSubscriptions.length > 0) {
-                    const subscription = activeSubscriptions[0];
-                    const endDate = subscription.endDate.toLocaleString(
-                        "en-US",
-                        {
+                    if (activeSubscriptions.length > 0) {
+                        const dateFormat: Intl.DateTimeFormatOptions = {
                             year: "numeric",
                             month: "long",
                             day: "numeric",
                             hour: "2-digit",
                             minute: "2-digit",
-                        }
-                    );
-
-                    const planName = this.getPlanName(subscription.planType);
-                    const daysLeft = Math.ceil(
-                        (subscription.endDate.getTime() -
-                            new Date().getTime()) /
-                            (1000 * 60 * 60 * 24)
-                    );
+                        };
+                        const gracePeriodMs =
+                            SubscriptionService.getGracePeriodHours() *
+                            60 *
+                            60 *
+                            1000;
+
+                        // По одному блоку на каждый канал с активной подпиской
+                        const details = activeSubscriptions.map((subscription) => {
+                            const endDate = formatDate(
+                                locale,
+                                subscription.endDate,
+                                dateFormat
+                            );
+
+                            const plan = subscription.isTrial
+                                ? t(locale, "subscription.freeTrial")
+                                : subscription.plan
+                                ? planName(subscription.plan, locale)
+                                : t(locale, "subscription.bonusAccess");
+                            const daysLeft = Math.ceil(
+                                (subscription.endDate.getTime() -
+                                    new Date().getTime()) /
+                                    (1000 * 60 * 60 * 24)
+                            );
+
+                            if (subscription.status === SubscriptionStatus.GRACE) {
+                                const removalDate = formatDate(
+                                    locale,
+                                    new Date(
+                                        subscription.endDate.getTime() +
+                                            gracePeriodMs
+                                    ),
+                                    dateFormat
+                                );
+
+                                return t(locale, "subscription.graceDetails", {
+                                    channel: subscription.channel.title,
+                                    plan,
+                                    endDate,
+                                    removalDate,
+                                });
+                            }
+
+                            return t(locale, "subscription.activeDetails", {
+                                channel: subscription.channel.title,
+                                plan,
+                                endDate,
+                                days: daysLeft,
+                            });
+                        });
+                        const inGrace = activeSubscriptions.some(
+                            (subscription) =>
+                                subscription.status === SubscriptionStatus.GRACE
+                        );
 
-                    const keyboard = {
-                        inline_keyboard: [
-                            [
-                                {
-                                    text: "🔄 Renew Subscription",
-                                    callback_data: "back_to_plans",
-                                },
-                            ],
-                        ],
-                    };
+                        const keyboard = await this.buildSubscriptionKeyboard(
+                            userId,
+                            locale
+                        );
 
-                    const message = `
-✅ **Your subscription is active!**
+                        const message = `
+${t(locale, inGrace ? "subscription.graceHeader" : "subscription.activeHeader")}
 
-📅 **Plan:** ${planName}
-⏰ **Valid until:** ${endDate}
-⏳ **Days remaining:** ${daysLeft}
+${details.join("\n\n")}
 
-💎 **Status:** Active
-🔗 **Channel access:** Granted
-            `;
+${t(locale, "subscription.accessGranted")}
+                `;
 
-                    await this.bot.sendMessage(msg.chat.id, message, {
-                        parse_mode: "Markdown",
-                        reply_markup: keyboard,
-                    });
-                } else {
-                    const keyboard = {
-                        inline_keyboard: [
-                            [
-                                {
-                                    text: "📋 Choose Plan",
-                                    callback_data: "back_to_plans",
-                                },
+                        await this.bot.sendMessage(msg.chat.id, message, {
+                            parse_mode: "Markdown",
+                            reply_markup: keyboard,
+                        });
+                    } else {
+                        const keyboard = {
+                            inline_keyboard: [
+                                [
+                                    {
+                                        text: t(
+                                            locale,
+                                            "subscription.choosePlanButton"
+                                        ),
+                                        callback_data: "back_to_plans",
+                                    },
+                                ],
                             ],
-                        ],
-                    };
-
-                    let message =
-                        "❌ **You don't have an active subscription**\n\n";
-
-                    if (recentPayments.length > 0) {
-                        const lastPayment = recentPayments[0];
-                        const statusEmoji = {
-                            PENDING: "⏳",
-                            COMPLETED: "✅",
-                            EXPIRED: "⏰",
-                            FAILED: "❌",
                         };
 
-                        message += `📋 **Last payment:**\n`;
-                        message += `${statusEmoji[lastPayment.status]} ${
-                            lastPayment.status === "PENDING"
-                                ? "Awaiting payment"
-                                : lastPayment.status === "COMPLETED"
-                                ? "Completed"
-                                : lastPayment.status === "EXPIRED"
-                                ? "Expired"
-                                : "Failed"
-                        }\n`;
-                        message += `💰 ${lastPayment.amount} ${lastPayment.currency}\n\n`;
-                    }
+                        let message = `${t(locale, "subscription.none")}\n\n`;
+
+                        if (recentPayments.length > 0) {
+                            const lastPayment = recentPayments[0];
+                            const statusEmoji = {
+                                PENDING: "⏳",
+                                PARTIALLY_PAID: "⚠️",
+                                COMPLETED: "✅",
+                                EXPIRED: "⏰",
+                                FAILED: "❌",
+                                REFUNDED: "💸",
+                            };
+
+                            message += `${t(locale, "subscription.lastPayment", {
+                                emoji: statusEmoji[lastPayment.status],
+                                status: t(
+                                    locale,
+                                    `paymentStatus.${lastPayment.status}`
+                                ),
+                                amount: String(lastPayment.amount),
+                                currency: lastPayment.currency,
+                            })}\n\n`;
+                        }
 
-                    message +=
-                        "To get access to the channel, please select and pay for a plan.";
+                        message += t(locale, "subscription.choosePlanHint");
 
-                    await this.bot.sendMessage(msg.chat.id, message, {
-                        parse_mode: "Markdown",
-                        reply_markup: keyboard,
-                    });
+                        await this.bot.sendMessage(msg.chat.id, message, {
+                            parse_mode: "Markdown",
+                            reply_markup: keyboard,
+                        });
+                    }
+                } catch (error) {
+                    console.error("Error showing subscription info:", error);
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        t(locale, "subscription.loadError")
+                    );
                 }
-            } catch (error) {
-                console.error("Error showing subscription info:", error);
-                await this.bot.sendMessage(
-                    msg.chat.id,
-                    "❌ Error loading subscription information. Please try again later."
-                );
             }
-        });
+        );
 
         // Обработка запроса на вступление в группу/канал
         this.bot.on("chat_join_request", async (chatJoinRequest) => {
@@ -187,7 +288,7 @@ export class PaymentHandlers {
                         subscriptions: {
                             where: {
                                 channelId: chatId.toString(),
-                                isActive: true,
+                                status: SubscriptionStatus.ACTIVE,
                                 endDate: { gte: new Date() },
                             },
                         },
@@ -201,7 +302,7 @@ export class PaymentHandlers {
                     // Отправляем уведомление пользователю
                     await this.bot.sendMessage(
                         userId,
-                        "✅ Welcome! Your subscription is active, access to the channel has been granted."
+                        t(getUserLocale(user), "join.approved")
                     );
 
                     console.log(
@@ -212,35 +313,24 @@ export class PaymentHandlers {
                     await this.bot.declineChatJoinRequest(chatId, userId);
 
                     // Создаем или обновляем пользователя
-                    await this.getOrCreateUser(chatJoinRequest.from);
+                    const dbUserId = await this.getOrCreateUser(
+                        chatJoinRequest.from
+                    );
+                    const locale = await this.userService.getLocale(dbUserId);
 
-                    // Предлагаем выбрать тариф
-                    const keyboard = {
-                        inline_keyboard: [
-                            [
-                                {
-                                    text: "📅 For a day",
-                                    callback_data: "plan_DAY",
-                                },
-                            ],
-                            [
-                                {
-                                    text: "📅 For a week",
-                                    callback_data: "plan_WEEK",
-                                },
-                            ],
-                            [
-                                {
-                                    text: "📅 For a month",
-                                    callback_data: "plan_MONTH",
-                                },
-                            ],
-                        ],
-                    };
+                    // Предлагаем выбрать тариф этого канала (или пробный доступ)
+                    const channel = await this.channelService.getChannelByChatId(
+                        chatId.toString()
+                    );
+                    const keyboard = await this.buildPlanKeyboard(
+                        locale,
+                        dbUserId,
+                        channel?.id
+                    );
 
                     await this.bot.sendMessage(
                         userId,
-                        "❌ A subscription is required to access the channel.\n\nSelect a plan:",
+                        t(locale, "join.required"),
                         { reply_markup: keyboard }
                     );
 
@@ -268,6 +358,8 @@ export class PaymentHandlers {
 
         // Обработка pre_checkout_query (звезды)
         this.bot.on("pre_checkout_query", async (query) => {
+            const locale = resolveLocale(query.from.language_code);
+
             try {
                 const payment = await this.prisma.payment.findUnique({
                     where: { invoicePayload: query.invoice_payload },
@@ -275,7 +367,7 @@ export class PaymentHandlers {
 
                 if (!payment || payment.expiresAt < new Date()) {
                     await this.bot.answerPreCheckoutQuery(query.id, false, {
-                        error_message: "Payment expired or not found",
+                        error_message: t(locale, "checkout.notFound"),
                     });
                     return;
                 }
@@ -284,96 +376,153 @@ export class PaymentHandlers {
             } catch (error) {
                 console.error("Pre-checkout error:", error);
                 await this.bot.answerPreCheckoutQuery(query.id, false, {
-                    error_message: "Payment error.",
+                    error_message: t(locale, "checkout.error"),
                 });
             }
         });
 
         // Обработка успешного платежа звездами
         this.bot.on("successful_payment", async (msg) => {
+            let locale = resolveLocale(msg.from?.language_code);
             try {
-                const payment = msg.successful_payment!;
+                // Поля подписок Stars отсутствуют в типах библиотеки
+                const payment =
+                    msg.successful_payment! as TelegramBot.SuccessfulPayment & {
+                        is_recurring?: boolean;
+                        is_first_recurring?: boolean;
+                        subscription_expiration_date?: number;
+                    };
+                const isRenewal =
+                    payment.is_recurring && !payment.is_first_recurring;
 
-                await this.paymentService.handleTelegramStarsSuccess(
-                    payment.invoice_payload,
-                    payment.telegram_payment_charge_id
-                );
+                const completedPayment =
+                    await this.paymentService.handleTelegramStarsSuccess(
+                        payment.invoice_payload,
+                        payment.telegram_payment_charge_id,
+                        {
+                            isRecurring: payment.is_recurring,
+                            isFirstRecurring: payment.is_first_recurring,
+                            expiresAt: payment.subscription_expiration_date
+                                ? new Date(
+                                      payment.subscription_expiration_date *
+                                          1000
+                                  )
+                                : undefined,
+                            amount: payment.total_amount,
+                        }
+                    );
 
-                // Генерируем одноразовую ссылку-приглашение
-                const inviteLink = await this.createInviteLink();
+                // Ссылку на подарок покупатель уже получил
+                if (completedPayment.isGift) return;
 
-                const keyboard = {
-                    inline_keyboard: [
-                        [
-                            {
-                                text: "🔗 Join Channel",
-                                url: inviteLink,
-                            },
-                        ],
-                    ],
-                };
+                locale = await this.userService.getLocale(
+                    completedPayment.userId
+                );
+
+                // Генерируем одноразовые ссылки-приглашения в каналы плана
+                const keyboard = await this.buildJoinKeyboard(
+                    await this.channelService.getPlanChannels(
+                        completedPayment.planId
+                    ),
+                    locale,
+                    completedPayment.userId,
+                    completedPayment.id
+                );
 
                 await this.bot.sendMessage(
                     msg.chat.id,
-                    "✅ Payment successfully processed! You have gained access to the channel.",
+                    t(locale, isRenewal ? "payment.starsRenewed" : "payment.success"),
                     { reply_markup: keyboard }
                 );
             } catch (error) {
                 console.error("Payment processing error:", error);
                 await this.bot.sendMessage(
                     msg.chat.id,
-                    "❌ Error processing payment. Please contact owner for help."
+                    t(locale, "payment.processingError")
                 );
             }
         });
 
-        // Обработка команды /start
-        this.bot.onText(/\/start/, async (msg) => {
-            const keyboard = {
-                inline_keyboard: [
-                    [{ text: "📅 For a day", callback_data: "plan_DAY" }],
-                    [{ text: "📅 For a week", callback_data: "plan_WEEK" }],
-                    [{ text: "📅 For a month", callback_data: "plan_MONTH" }],
-                ],
-            };
+        // Обработка команды /start (с возможным payload из deep-link)
+        this.bot.onText(/^\/start(?:\s+(\S+))?$/, async (msg, match) => {
+            const payload = match![1];
+            const userId = await this.getOrCreateUser(msg.from!, payload);
+
+            if (payload?.startsWith(GIFT_PAYLOAD_PREFIX)) {
+                await this.redeemGift(
+                    msg,
+                    userId,
+                    payload.slice(GIFT_PAYLOAD_PREFIX.length)
+                );
+                return;
+            }
+
+            const locale = await this.userService.getLocale(userId);
+            const keyboard = await this.buildPlanKeyboard(locale, userId);
+            await this.bot.sendMessage(
+                msg.chat.id,
+                t(locale, "start.welcome"),
+                { reply_markup: this.buildMenuKeyboard(locale) }
+            );
+            await this.bot.sendMessage(
+                msg.chat.id,
+                t(locale, "plans.select"),
+                { reply_markup: keyboard }
+            );
+        });
+
+        // Выбор языка
+        this.bot.onText(/^\/language$/, async (msg) => {
+            const userId = await this.getOrCreateUser(msg.from!);
+            const locale = await this.userService.getLocale(userId);
+
             await this.bot.sendMessage(
                 msg.chat.id,
-                `❤️‍🔥With this bot, you can access my secret channel with hot content with my boyfriend. 
-❤️‍🔥Quick and confidential. 
-❤️‍🔥Photos, videos and interactive content that is actively updated. 
-❤️‍🔥You can see the entire archive, and I never delete old content.
-❤️‍🔥Click start to join👇🏼`,
+                t(locale, "language.choose"),
                 {
                     reply_markup: {
-                        keyboard: [
-                            [
-                                { text: "📋 Price" },
-                                { text: "👤 My Subscription" },
-                            ],
-                        ],
-                        resize_keyboard: true,
-                        one_time_keyboard: false,
+                        inline_keyboard: LOCALES.map((code) => [
+                            {
+                                text: LOCALE_NAMES[code],
+                                callback_data: `language_${code}`,
+                            },
+                        ]),
                     },
                 }
             );
+        });
+
+        this.bot.on("callback_query", async (query) => {
+            if (!query.data?.startsWith("language_")) return;
+
+            const locale = query.data.split("_")[1];
+            if (!isLocale(locale)) return;
+
+            const userId = await this.getOrCreateUser(query.from);
+            await this.userService.setLanguage(userId, locale);
+
+            await this.bot.answerCallbackQuery(query.id);
+            // Клавиатура меню обновляется только новым сообщением
             await this.bot.sendMessage(
-                msg.chat.id,
-                `Select a subscription plan:`,
-                { reply_markup: keyboard }
+                query.message!.chat.id,
+                t(locale, "language.changed"),
+                { reply_markup: this.buildMenuKeyboard(locale) }
             );
         });
 
         // Обработка команды /check для проверки крипто-платежа
         this.bot.onText(/\/check/, async (msg) => {
+            let locale = getDefaultLocale();
             try {
                 const userId = await this.getOrCreateUser(msg.from!);
+                locale = await this.userService.getLocale(userId);
 
                 // Ищем последний pending крипто-платеж пользователя
                 const pendingPayment = await this.prisma.payment.findFirst({
                     where: {
                         userId: userId,
-                        status: "PENDING",
-                        paymentType: "CRYPTO_USDT",
+                        status: { in: ["PENDING", "PARTIALLY_PAID"] },
+                        paymentType: "CRYPTO",
                     },
                     orderBy: {
                         createdAt: "desc",
@@ -383,41 +532,49 @@ export class PaymentHandlers {
                 if (!pendingPayment || !pendingPayment.cryptoTxHash) {
                     await this.bot.sendMessage(
                         msg.chat.id,
-                        "❌ You have no pending crypto payments to verify."
+                        t(locale, "check.noPending")
                     );
                     return;
                 }
 
                 await this.bot.sendMessage(
                     msg.chat.id,
-                    "🔄 Checking payment status..."
+                    t(locale, "check.checking")
                 );
 
                 const result =
                     await this.paymentService.checkCryptoPaymentStatus(
-                        pendingPayment.cryptoTxHash
+                        pendingPayment.cryptoTxHash,
+                        PaymentEventSource.CHECK_COMMAND
                     );
 
                 if (
+                    result.statusChanged &&
+                    result.nowPayment.payment_status === "finished" &&
+                    result.payment.isGift
+                ) {
+                    // Ссылка на подарок отправлена отдельным сообщением
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        t(locale, "check.giftConfirmed")
+                    );
+                } else if (
                     result.statusChanged &&
                     result.nowPayment.payment_status === "finished"
                 ) {
                     // Платеж успешен
-                    const inviteLink = await this.createInviteLink();
-                    const keyboard = {
-                        inline_keyboard: [
-                            [
-                                {
-                                    text: "🔗 Join channel",
-                                    url: inviteLink,
-                                },
-                            ],
-                        ],
-                    };
+                    const keyboard = await this.buildJoinKeyboard(
+                        await this.channelService.getPlanChannels(
+                            result.payment.planId
+                        ),
+                        locale,
+                        result.payment.userId,
+                        result.payment.id
+                    );
 
                     await this.bot.sendMessage(
                         msg.chat.id,
-                        "✅ Payment confirmed! Subscription activated.",
+                        t(locale, "check.confirmed"),
                         { reply_markup: keyboard }
                     );
                 } else if (
@@ -427,155 +584,769 @@ export class PaymentHandlers {
                 ) {
                     await this.bot.sendMessage(
                         msg.chat.id,
-                        "❌ Payment failed. Try creating a new payment."
+                        t(locale, "check.failed")
                     );
                 } else {
                     // Платеж еще обрабатывается
                     const statusText = this.getPaymentStatusText(
-                        result.nowPayment.payment_status
+                        result.nowPayment.payment_status,
+                        locale
                     );
+                    const remainingText = result.remainingAmount
+                        ? t(locale, "check.remaining", {
+                              amount: result.remainingAmount,
+                              currency: pendingPayment.currency.toUpperCase(),
+                          })
+                        : "";
                     await this.bot.sendMessage(
                         msg.chat.id,
-                        `⏳ Payment status: ${statusText}\n\nPlease repeat the /check command in a few minutes.`
+                        t(locale, "check.status", {
+                            status: statusText,
+                            remaining: remainingText,
+                        })
                     );
                 }
             } catch (error) {
                 console.error("Error checking payment:", error);
                 await this.bot.sendMessage(
                     msg.chat.id,
-                    "❌ Error checking payment. Please try again later."
+                    t(locale, "check.error")
                 );
             }
         });
 
-        // Обработка возврата к выбору тарифов
-        this.bot.on("callback_query", async (query) => {
-            if (!query.data?.startsWith("back_to_plans")) return;
-
-            const keyboard = {
-                inline_keyboard: [
-                    [{ text: "📅 For a day", callback_data: "plan_DAY" }],
-                    [{ text: "📅 For a week", callback_data: "plan_WEEK" }],
-                    [{ text: "📅 For a month", callback_data: "plan_MONTH" }],
-                ],
-            };
+        // Обработка команды /referrals
+        this.bot.onText(/^\/referrals$/, async (msg) => {
+            let locale = getDefaultLocale();
+            try {
+                const userId = await this.getOrCreateUser(msg.from!);
+                locale = await this.userService.getLocale(userId);
+                const [code, stats, botUsername] = await Promise.all([
+                    this.referralService.getReferralCode(userId),
+                    this.referralService.getStats(userId),
+                    this.getBotUsername(),
+                ]);
+                const bonusDays = ReferralService.getBonusDays();
+                const bonusUsd = ReferralService.getBonusUsd();
+                const link = `https://t.me/${botUsername}?start=${REFERRAL_PAYLOAD_PREFIX}${code}`;
+
+                const rewardText =
+                    (bonusDays > 0
+                        ? t(locale, "referrals.rewardDaysInfo", {
+                              days: bonusDays,
+                          })
+                        : "") +
+                    (bonusUsd > 0
+                        ? t(locale, "referrals.rewardUsdInfo", {
+                              amount: bonusUsd.toFixed(2),
+                          })
+                        : "");
 
-            await this.bot.editMessageText(`Select a subscription plan:`, {
-                chat_id: query.message!.chat.id,
-                message_id: query.message!.message_id,
-                reply_markup: keyboard,
-            });
+                await this.bot.sendMessage(
+                    msg.chat.id,
+                    t(locale, "referrals.info", {
+                        link,
+                        reward: rewardText,
+                        invited: stats.invited,
+                        converted: stats.converted,
+                        days: stats.daysEarned,
+                    }),
+                    { disable_web_page_preview: true }
+                );
+            } catch (error) {
+                console.error("Error showing referrals:", error);
+                await this.bot.sendMessage(
+                    msg.chat.id,
+                    t(locale, "referrals.error")
+                );
+            }
         });
 
-        // Обработка выбора тарифа
-        this.bot.on("callback_query", async (query) => {
-            if (!query.data?.startsWith("plan_")) return;
+        // Обработка команды /balance
+        this.bot.onText(/^\/balance$/, async (msg) => {
+            let locale = getDefaultLocale();
+            try {
+                const userId = await this.getOrCreateUser(msg.from!);
+                locale = await this.userService.getLocale(userId);
+                const [balance, entries] = await Promise.all([
+                    this.walletService.getBalance(userId),
+                    this.walletService.getRecentEntries(userId),
+                ]);
+
+                const historyText = entries.length
+                    ? t(locale, "balance.history", {
+                          entries: entries
+                              .map(
+                                  (entry) =>
+                                      `${formatDate(locale, entry.createdAt, {
+                                          month: "short",
+                                          day: "numeric",
+                                      })} · ${t(
+                                          locale,
+                                          `balance.entry.${entry.type}`
+                                      )} · ${
+                                          Number(entry.amount) > 0 ? "+" : "−"
+                                      }$${Math.abs(Number(entry.amount)).toFixed(
+                                          2
+                                      )}${
+                                          entry.description
+                                              ? ` (${entry.description})`
+                                              : ""
+                                      }`
+                              )
+                              .join("\n"),
+                      })
+                    : "";
 
-            const planType = query.data.split("_")[1] as PlanType;
-            const userId = await this.getOrCreateUser(query.from);
+                await this.bot.sendMessage(
+                    msg.chat.id,
+                    t(locale, "balance.info", {
+                        balance: balance.toFixed(2),
+                        history: historyText,
+                    })
+                );
+            } catch (error) {
+                console.error("Error showing balance:", error);
+                await this.bot.sendMessage(
+                    msg.chat.id,
+                    t(locale, "balance.error")
+                );
+            }
+        });
 
-            const keyboard = {
-                inline_keyboard: [
-                    [
-                        {
-                            text: "⭐ Pay with TGStars (no comission)",
-                            callback_data: `pay_stars_${planType}`,
-                        },
-                    ],
-                    [
-                        {
-                            text: "💵 Pay with USDT",
-                            callback_data: `pay_usdt_${planType}`,
-                        },
-                    ],
-                    [{ text: "← Back", callback_data: "back_to_plans" }],
-                ],
-            };
+        // Обработка команды /history: периоды доступа, новые первыми
+        this.bot.onText(/^\/history$/, async (msg) => {
+            let locale = getDefaultLocale();
+            try {
+                const userId = await this.getOrCreateUser(msg.from!);
+                locale = await this.userService.getLocale(userId);
+                const periods = await this.subscriptionService.getHistory(
+                    userId
+                );
 
-            await this.bot.editMessageText(
-                `Selected tariff: ${this.getPlanName(
-                    planType
-                )}\nSelect a payment method:`,
-                {
-                    chat_id: query.message!.chat.id,
-                    message_id: query.message!.message_id,
-                    reply_markup: keyboard,
+                if (periods.length === 0) {
+                    await this.bot.sendMessage(
+                        msg.chat.id,
+                        t(locale, "history.empty")
+                    );
+                    return;
                 }
-            );
+
+                const date = (value: Date) =>
+                    formatDate(locale, value, {
+                        year: "numeric",
+                        month: "short",
+                        day: "numeric",
+                    });
+
+                const entries = periods.map(
+                    (period) =>
+                        `${date(period.startDate)} – ${date(
+                            period.endDate
+                        )} · ${t(locale, `history.source.${period.source}`)}${
+                            period.plan
+                                ? ` · ${planName(period.plan, locale)}`
+                                : ""
+                        } · ${period.subscription.channel.title}${
+                            period.revokedAt ? t(locale, "history.revoked") : ""
+                        }`
+                );
+
+                await this.bot.sendMessage(
+                    msg.chat.id,
+                    t(locale, "history.info", { entries: entries.join("\n") })
+                );
+            } catch (error) {
+                console.error("Error showing history:", error);
+                await this.bot.sendMessage(
+                    msg.chat.id,
+                    t(locale, "history.error")
+                );
+            }
         });
 
-        // Обработка выбора способа оплаты
+        // Отключение всех автопродлений
+        this.bot.onText(/^\/cancelrenewal$/, async (msg) => {
+            let locale = getDefaultLocale();
+            try {
+                const userId = await this.getOrCreateUser(msg.from!);
+                locale = await this.userService.getLocale(userId);
+                const renewals = await this.autoRenewService.cancelAll(userId);
+
+                await this.bot.sendMessage(
+                    msg.chat.id,
+                    renewals.length
+                        ? t(locale, "renewal.cancelled", {
+                              plans: renewals
+                                  .map((renewal) =>
+                                      planName(renewal.plan, locale)
+                                  )
+                                  .join(", "),
+                          })
+                        : t(locale, "renewal.none")
+                );
+            } catch (error) {
+                console.error("Error cancelling auto-renew:", error);
+                await this.bot.sendMessage(
+                    msg.chat.id,
+                    t(locale, "renewal.cancelError")
+                );
+            }
+        });
+
+        // Переключатель автопродления на экране подписки
         this.bot.on("callback_query", async (query) => {
-            if (!query.data?.startsWith("pay_")) return;
-            const [, paymentType, planType] = query.data.split("_");
-            const userId = await this.getOrCreateUser(query.from);
+            if (!query.data?.startsWith("autorenew_")) return;
 
+            let locale = getDefaultLocale();
             try {
-                if (paymentType === "stars") {
-                    await this.paymentService.createTelegramStarsPayment(
+                const userId = await this.getOrCreateUser(query.from);
+                locale = await this.userService.getLocale(userId);
+                const planId = query.data.split("_")[1];
+                const active = (
+                    await this.autoRenewService.getActiveRenewals(userId)
+                ).find((renewal) => renewal.planId === planId);
+
+                if (active) {
+                    await this.autoRenewService.cancel(active.id);
+                    await this.bot.answerCallbackQuery(query.id, {
+                        text: t(locale, "renewal.turnedOff"),
+                    });
+                } else {
+                    const plan = await this.planService.getPlan(planId);
+
+                    if (!plan || !plan.isActive) {
+                        await this.bot.answerCallbackQuery(query.id, {
+                            text: t(locale, "plans.planUnavailable"),
+                            show_alert: true,
+                        });
+                        return;
+                    }
+
+                    await this.autoRenewService.enableBalanceRenewal(
                         userId,
-                        query.from.id,
-                        planType as PlanType
+                        planId
+                    );
+                    const balance = await this.walletService.getBalance(
+                        userId
                     );
 
                     await this.bot.answerCallbackQuery(query.id, {
-                        text: "The invoice has been sent! Please check your messages.",
+                        text: t(locale, "renewal.turnedOn", {
+                            price: String(plan.usdPrice),
+                            balance: balance.toFixed(2),
+                        }),
+                        show_alert: true,
                     });
-                } else if (paymentType === "usdt") {
-                    const result =
-                        await this.paymentService.createCryptoPayment(
-                            userId,
-                            planType as PlanType
-                        );
+                }
 
-                    const keyboard = {
-                        inline_keyboard: [
-                            [
-                                {
-                                    text: "🔄 Check payment",
-                                    callback_data: `check_payment_${result.paymentId}`,
-                                },
-                            ],
+                await this.bot.editMessageReplyMarkup(
+                    await this.buildSubscriptionKeyboard(userId, locale),
+                    {
+                        chat_id: query.message!.chat.id,
+                        message_id: query.message!.message_id,
+                    }
+                );
+            } catch (error) {
+                console.error("Error toggling auto-renew:", error);
+                await this.bot.answerCallbackQuery(query.id, {
+                    text: t(locale, "renewal.toggleError"),
+                    show_alert: true,
+                });
+            }
+        });
+
+        // Новые ссылки-приглашения взамен утерянных или использованных
+        this.bot.on("callback_query", async (query) => {
+            if (query.data !== "reissue_links") return;
+
+            let locale = getDefaultLocale();
+            try {
+                const userId = await this.getOrCreateUser(query.from);
+                locale = await this.userService.getLocale(userId);
+                const subscriptions = await this.prisma.subscription.findMany({
+                    where: { userId, status: { in: ACCESS_STATUSES } },
+                    include: {
+                        channel: true,
+                        // Ссылка привязывается к последнему оплаченному периоду
+                        periods: {
+                            where: {
+                                revokedAt: null,
+                                paymentId: { not: null },
+                            },
+                            orderBy: { startDate: "desc" },
+                            take: 1,
+                        },
+                    },
+                });
+
+                if (subscriptions.length === 0) {
+                    await this.bot.answerCallbackQuery(query.id, {
+                        text: t(locale, "invite.noSubscription"),
+                        show_alert: true,
+                    });
+                    return;
+                }
+
+                const rows: TelegramBot.InlineKeyboardButton[][] = [];
+                for (const subscription of subscriptions) {
+                    rows.push([
+                        await this.buildJoinButton(
+                            subscription.channel,
+                            subscriptions.length > 1,
+                            locale,
+                            userId,
+                            subscription.periods[0]?.paymentId
+                        ),
+                    ]);
+                }
+
+                await this.bot.answerCallbackQuery(query.id);
+                await this.bot.sendMessage(
+                    query.message!.chat.id,
+                    t(locale, "invite.reissued"),
+                    { reply_markup: { inline_keyboard: rows } }
+                );
+            } catch (error) {
+                console.error("Error reissuing invite links:", error);
+                await this.bot.answerCallbackQuery(query.id, {
+                    text: t(locale, "invite.error"),
+                    show_alert: true,
+                });
+            }
+        });
+
+        // Активация пробного доступа
+        this.bot.on("callback_query", async (query) => {
+            if (!query.data?.startsWith("trial_start")) return;
+
+            let locale = getDefaultLocale();
+            try {
+                const userId = await this.getOrCreateUser(query.from);
+                locale = await this.userService.getLocale(userId);
+                // Старые кнопки trial_start — пробный доступ к первому каналу
+                const channelId = query.data.split("_")[2];
+                const channel = channelId
+                    ? await this.channelService.getChannel(channelId)
+                    : (await this.channelService.getActiveChannels())[0];
+
+                if (!channel || !channel.isActive) {
+                    await this.bot.answerCallbackQuery(query.id, {
+                        text: t(locale, "plans.channelUnavailable"),
+                        show_alert: true,
+                    });
+                    return;
+                }
+
+                if (!(await this.subscriptionService.isTrialAvailable(userId))) {
+                    await this.bot.answerCallbackQuery(query.id, {
+                        text: t(locale, "trial.unavailable"),
+                        show_alert: true,
+                    });
+                    return;
+                }
+
+                const [subscription] =
+                    await this.subscriptionService.startTrial(userId, channel);
+                const keyboard = await this.buildJoinKeyboard(
+                    [channel],
+                    locale,
+                    userId
+                );
+
+                await this.bot.answerCallbackQuery(query.id);
+                await this.bot.sendMessage(
+                    query.message!.chat.id,
+                    t(locale, "trial.active", {
+                        endDate: formatDate(locale, subscription.endDate, {
+                            month: "long",
+                            day: "numeric",
+                            hour: "2-digit",
+                            minute: "2-digit",
+                        }),
+                    }),
+                    { reply_markup: keyboard }
+                );
+            } catch (error) {
+                console.error("Error starting trial:", error);
+                await this.bot.answerCallbackQuery(query.id, {
+                    text: t(locale, "trial.error"),
+                    show_alert: true,
+                });
+            }
+        });
+
+        // Обработка команды /promo
+        this.bot.onText(/^\/promo(?:\s+(\S+))?$/, async (msg, match) => {
+            if (!match![1]) {
+                await this.askPromoCode(msg.chat.id, msg.from!);
+                return;
+            }
+            await this.applyPromoCode(msg, match![1]);
+        });
+
+        // Кнопка ввода промокода в выборе плана
+        this.bot.on("callback_query", async (query) => {
+            if (query.data !== "promo_enter") return;
+
+            await this.bot.answerCallbackQuery(query.id);
+            await this.askPromoCode(query.message!.chat.id, query.from);
+        });
+
+        // Ответ пользователя на запрос промокода
+        this.bot.on("message", async (msg) => {
+            // Подсказка могла быть отправлена до смены языка
+            if (
+                !msg.text ||
+                !allTranslations("promo.prompt").includes(
+                    msg.reply_to_message?.text!
+                )
+            ) {
+                return;
+            }
+            await this.applyPromoCode(msg, msg.text);
+        });
+
+        // Обработка возврата к выбору тарифов
+        this.bot.on("callback_query", async (query) => {
+            if (!query.data?.startsWith("back_to_plans")) return;
+
+            const userId = await this.getOrCreateUser(query.from);
+            const locale = await this.userService.getLocale(userId);
+            const keyboard = await this.buildPlanKeyboard(locale);
+
+            await this.bot.editMessageText(t(locale, "plans.select"), {
+                chat_id: query.message!.chat.id,
+                message_id: query.message!.message_id,
+                reply_markup: keyboard,
+            });
+        });
+
+        // Обработка выбора канала
+        this.bot.on("callback_query", async (query) => {
+            if (!query.data?.startsWith("channel_")) return;
+
+            const channel = await this.channelService.getChannel(
+                query.data.split("_")[1]
+            );
+            const userId = await this.getOrCreateUser(query.from);
+            const locale = await this.userService.getLocale(userId);
+
+            if (!channel || !channel.isActive) {
+                await this.bot.answerCallbackQuery(query.id, {
+                    text: t(locale, "plans.channelUnavailable"),
+                    show_alert: true,
+                });
+                return;
+            }
+
+            const keyboard = await this.buildPlanKeyboard(
+                locale,
+                userId,
+                channel.id
+            );
+
+            await this.bot.answerCallbackQuery(query.id);
+            await this.bot.editMessageText(
+                t(locale, "plans.selectInChannel", { channel: channel.title }),
+                {
+                    chat_id: query.message!.chat.id,
+                    message_id: query.message!.message_id,
+                    reply_markup: keyboard,
+                }
+            );
+        });
+
+        // Обработка выбора тарифа
+        this.bot.on("callback_query", async (query) => {
+            if (
+                !query.data?.startsWith("plan_") &&
+                !query.data?.startsWith("giftplan_")
+            ) {
+                return;
+            }
+
+            // giftplan_ — тот же выбор способа оплаты, но покупка в подарок
+            const isGift = query.data.startsWith("giftplan_");
+            const giftSuffix = isGift ? "_gift" : "";
+            const planId = query.data.split("_")[1];
+            const plan = await this.planService.getPlan(planId);
+            const userId = await this.getOrCreateUser(query.from);
+            const locale = await this.userService.getLocale(userId);
+
+            if (!plan || !plan.isActive) {
+                await this.bot.answerCallbackQuery(query.id, {
+                    text: t(locale, "plans.planUnavailable"),
+                    show_alert: true,
+                });
+                return;
+            }
+
+            const price = await this.couponService.getPlanPrice(userId, plan);
+            const balance = await this.walletService.getBalance(userId);
+
+            const keyboard = {
+                inline_keyboard: [
+                    [
+                        {
+                            text: t(locale, "pay.starsButton"),
+                            callback_data: `pay_stars_${plan.id}${giftSuffix}`,
+                        },
+                    ],
+                    [
+                        {
+                            text: t(locale, "pay.cryptoButton"),
+                            callback_data: `pay_crypto_${plan.id}${giftSuffix}`,
+                        },
+                    ],
+                    // Подписка Stars возможна только для 30-дневных планов
+                    ...(!isGift &&
+                    plan.durationSeconds === STARS_SUBSCRIPTION_PERIOD
+                        ? [
+                              [
+                                  {
+                                      text: t(
+                                          locale,
+                                          "pay.starsSubscriptionButton"
+                                      ),
+                                      callback_data: `pay_starsub_${plan.id}`,
+                                  },
+                              ],
+                          ]
+                        : []),
+                    ...(balance > 0
+                        ? [
+                              [
+                                  {
+                                      text: t(locale, "pay.balanceButton", {
+                                          balance: balance.toFixed(2),
+                                      }),
+                                      callback_data: `pay_balance_${plan.id}${giftSuffix}`,
+                                  },
+                              ],
+                          ]
+                        : []),
+                    [
+                        isGift
+                            ? {
+                                  text: t(locale, "pay.forMyselfButton"),
+                                  callback_data: `plan_${plan.id}`,
+                              }
+                            : {
+                                  text: t(locale, "pay.giftButton"),
+                                  callback_data: `giftplan_${plan.id}`,
+                              },
+                    ],
+                    [
+                        {
+                            text: t(locale, "common.back"),
+                            callback_data: "back_to_plans",
+                        },
+                    ],
+                ],
+            };
+
+            const couponText = price.coupon
+                ? t(locale, "pay.couponApplied", { code: price.coupon.code })
+                : "";
+            const giftText = isGift ? t(locale, "pay.giftHint") : "";
+            const channels = await this.channelService.getPlanChannels(
+                plan.id
+            );
+            const channelsText = channels.length
+                ? t(locale, "pay.accessTo", {
+                      channels: channels
+                          .map((channel) => channel.title)
+                          .join(", "),
+                  })
+                : "";
+
+            await this.bot.editMessageText(
+                t(locale, "pay.selectMethod", {
+                    plan: planName(plan, locale),
+                    channels: channelsText,
+                    gift: giftText,
+                    stars: price.starsPrice,
+                    usd: price.usdPrice,
+                    coupon: couponText,
+                }),
+                {
+                    chat_id: query.message!.chat.id,
+                    message_id: query.message!.message_id,
+                    reply_markup: keyboard,
+                }
+            );
+        });
+
+        // Обработка выбора способа оплаты
+        this.bot.on("callback_query", async (query) => {
+            if (!query.data?.startsWith("pay_")) return;
+            const [, paymentType, planId, mode] = query.data.split("_");
+            const isGift = mode === "gift";
+            const giftSuffix = isGift ? "_gift" : "";
+            const userId = await this.getOrCreateUser(query.from);
+            const locale = await this.userService.getLocale(userId);
+
+            try {
+                if (paymentType === "stars") {
+                    await this.paymentService.createTelegramStarsPayment(
+                        userId,
+                        query.from.id,
+                        planId,
+                        { isGift }
+                    );
+
+                    await this.bot.answerCallbackQuery(query.id, {
+                        text: t(locale, "pay.invoiceSent"),
+                    });
+                } else if (paymentType === "starsub") {
+                    // Подписку Stars можно оформить только по ссылке на инвойс
+                    const link =
+                        await this.paymentService.createStarsSubscriptionLink(
+                            userId,
+                            planId
+                        );
+
+                    await this.bot.sendMessage(
+                        query.message!.chat.id,
+                        t(locale, "pay.starsSubscriptionInfo"),
+                        {
+                            reply_markup: {
+                                inline_keyboard: [
+                                    [
+                                        {
+                                            text: t(
+                                                locale,
+                                                "pay.subscribeButton"
+                                            ),
+                                            url: link,
+                                        },
+                                    ],
+                                ],
+                            },
+                        }
+                    );
+                    await this.bot.answerCallbackQuery(query.id);
+                } else if (paymentType === "crypto") {
+                    // Выбор монеты для оплаты
+                    const currencies =
+                        await this.paymentService.getCryptoCurrenciesForPlan(
+                            userId,
+                            planId
+                        );
+
+                    if (currencies.length === 0) {
+                        await this.bot.answerCallbackQuery(query.id, {
+                            text: t(locale, "pay.cryptoUnavailable"),
+                            show_alert: true,
+                        });
+                        return;
+                    }
+
+                    const keyboard = {
+                        inline_keyboard: [
+                            ...currencies.map((currency) => [
+                                {
+                                    text: `🪙 ${currency.name}`,
+                                    callback_data: `coin_${currency.code}_${planId}${giftSuffix}`,
+                                },
+                            ]),
                             [
                                 {
-                                    text: "ℹ️ Payment instructions",
-                                    callback_data: `payment_info_${result.paymentId}`,
+                                    text: t(locale, "common.back"),
+                                    callback_data: `${
+                                        isGift ? "giftplan" : "plan"
+                                    }_${planId}`,
                                 },
                             ],
                         ],
                     };
 
-                    const message = `
-💳 **USDT TRC20 crypto payment**
+                    const plan = await this.planService.getPlan(planId);
 
-💰 **Amount:** \`${result.amount}\` USDT
-📍 **Address:** \`${result.address}\`
-🆔 **Payment ID:** \`${result.paymentId}\`
+                    await this.bot.editMessageText(
+                        t(locale, "pay.selectCoin", {
+                            plan: planName(plan!, locale),
+                        }),
+                        {
+                            chat_id: query.message!.chat.id,
+                            message_id: query.message!.message_id,
+                            reply_markup: keyboard,
+                        }
+                    );
+
+                    await this.bot.answerCallbackQuery(query.id);
+                } else if (paymentType === "usdt") {
+                    // Старые кнопки оплаты USDT TRC20
+                    await this.sendCryptoPayment(
+                        query,
+                        userId,
+                        planId,
+                        DEFAULT_CRYPTO_CURRENCY,
+                        locale
+                    );
+                } else if (paymentType === "balance") {
+                    const plan = await this.planService.getPurchasablePlan(
+                        planId
+                    );
+                    const [price, balance] = await Promise.all([
+                        this.couponService.getPlanPrice(userId, plan),
+                        this.walletService.getBalance(userId),
+                    ]);
+
+                    if (balance < price.usdPrice) {
+                        await this.bot.answerCallbackQuery(query.id, {
+                            text: t(locale, "pay.notEnoughFunds", {
+                                price: price.usdPrice,
+                                balance: balance.toFixed(2),
+                            }),
+                            show_alert: true,
+                        });
+                        return;
+                    }
 
-⏰ **Payment time:** 60 minutes
-⚠️ **Important:** Send the exact amount to the specified address
-⚠️ **Important:** Transfer fees are included in the price
+                    const { payment } =
+                        await this.paymentService.createBalancePayment(
+                            userId,
+                            planId,
+                            { isGift }
+                        );
+                    await this.bot.answerCallbackQuery(query.id);
 
-After sending, use the /check command or click the “Check payment” button
-                    `;
+                    // Ссылка на подарок отправлена отдельным сообщением
+                    if (isGift) {
+                        await this.bot.editMessageText(
+                            t(locale, "pay.balanceGiftPaid"),
+                            {
+                                chat_id: query.message!.chat.id,
+                                message_id: query.message!.message_id,
+                            }
+                        );
+                        return;
+                    }
 
-                    await this.bot.sendMessage(
-                        query.message!.chat.id,
-                        message,
+                    const keyboard = await this.buildJoinKeyboard(
+                        await this.channelService.getPlanChannels(planId),
+                        locale,
+                        userId,
+                        payment.id
+                    );
+
+                    await this.bot.editMessageText(
+                        t(locale, "pay.balancePaid", {
+                            balance: (balance - price.usdPrice).toFixed(2),
+                        }),
                         {
-                            parse_mode: "Markdown",
+                            chat_id: query.message!.chat.id,
+                            message_id: query.message!.message_id,
                             reply_markup: keyboard,
                         }
                     );
-
-                    await this.bot.answerCallbackQuery(query.id, {
-                        text: "Payment details have been sent!",
-                    });
                 }
             } catch (error) {
                 console.error("Payment creation error:", error);
                 await this.bot.answerCallbackQuery(query.id, {
-                    text: "Error creating payment. Please try again later.",
+                    text: t(locale, "pay.error"),
                     show_alert: true,
                 });
             }
@@ -586,36 +1357,49 @@ After sending, use the /check command or click the “Check payment” button
             if (!query.data?.startsWith("check_payment_")) return;
 
             const paymentId = query.data.split("check_payment_")[1];
+            const userId = await this.getOrCreateUser(query.from);
+            const locale = await this.userService.getLocale(userId);
 
             try {
                 await this.bot.answerCallbackQuery(query.id, {
-                    text: "🔄 Checking payment...",
+                    text: t(locale, "check.checkingShort"),
                 });
 
                 const result =
                     await this.paymentService.checkCryptoPaymentStatus(
-                        paymentId
+                        paymentId,
+                        PaymentEventSource.CHECK_BUTTON
                     );
 
                 if (
+                    result.statusChanged &&
+                    result.nowPayment.payment_status === "finished" &&
+                    result.payment.isGift
+                ) {
+                    // Ссылка на подарок отправлена отдельным сообщением
+                    await this.bot.editMessageText(
+                        t(locale, "check.giftConfirmed"),
+                        {
+                            chat_id: query.message!.chat.id,
+                            message_id: query.message!.message_id,
+                        }
+                    );
+                } else if (
                     result.statusChanged &&
                     result.nowPayment.payment_status === "finished"
                 ) {
                     // Платеж успешен
-                    const inviteLink = await this.createInviteLink();
-                    const keyboard = {
-                        inline_keyboard: [
-                            [
-                                {
-                                    text: "🔗 Join channel",
-                                    url: inviteLink,
-                                },
-                            ],
-                        ],
-                    };
+                    const keyboard = await this.buildJoinKeyboard(
+                        await this.channelService.getPlanChannels(
+                            result.payment.planId
+                        ),
+                        locale,
+                        result.payment.userId,
+                        result.payment.id
+                    );
 
                     await this.bot.editMessageText(
-                        "✅ Payment confirmed! Subscription activated.",
+                        t(locale, "check.confirmed"),
                         {
                             chat_id: query.message!.chat.id,
                             message_id: query.message!.message_id,
@@ -628,7 +1412,7 @@ After sending, use the /check command or click the “Check payment” button
                     )
                 ) {
                     await this.bot.editMessageText(
-                        "❌ Payment failed. Try creating a new payment with the command /start.",
+                        t(locale, "check.failedRestart"),
                         {
                             chat_id: query.message!.chat.id,
                             message_id: query.message!.message_id,
@@ -637,14 +1421,15 @@ After sending, use the /check command or click the “Check payment” button
                 } else {
                     // Платеж еще обрабатывается
                     const statusText = this.getPaymentStatusText(
-                        result.nowPayment.payment_status
+                        result.nowPayment.payment_status,
+                        locale
                     );
 
                     const keyboard = {
                         inline_keyboard: [
                             [
                                 {
-                                    text: "🔄 Check again",
+                                    text: t(locale, "check.againButton"),
                                     callback_data: `check_payment_${paymentId}`,
                                 },
                             ],
@@ -652,7 +1437,7 @@ After sending, use the /check command or click the “Check payment” button
                     };
 
                     await this.bot.editMessageText(
-                        `⏳ Payment status: ${statusText}\n\nPlease try again in a few minutes.`,
+                        t(locale, "check.statusRetry", { status: statusText }),
                         {
                             chat_id: query.message!.chat.id,
                             message_id: query.message!.message_id,
@@ -663,7 +1448,32 @@ After sending, use the /check command or click the “Check payment” button
             } catch (error) {
                 console.error("Error checking payment:", error);
                 await this.bot.answerCallbackQuery(query.id, {
-                    text: "❌ Error checking payment",
+                    text: t(locale, "check.errorShort"),
+                    show_alert: true,
+                });
+            }
+        });
+
+        // Обработка выбора монеты
+        this.bot.on("callback_query", async (query) => {
+            if (!query.data?.startsWith("coin_")) return;
+            const [, currency, planId, mode] = query.data.split("_");
+            const userId = await this.getOrCreateUser(query.from);
+            const locale = await this.userService.getLocale(userId);
+
+            try {
+                await this.sendCryptoPayment(
+                    query,
+                    userId,
+                    planId,
+                    currency,
+                    locale,
+                    { isGift: mode === "gift" }
+                );
+            } catch (error) {
+                console.error("Payment creation error:", error);
+                await this.bot.answerCallbackQuery(query.id, {
+                    text: t(locale, "pay.error"),
                     show_alert: true,
                 });
             }
@@ -673,25 +1483,24 @@ After sending, use the /check command or click the “Check payment” button
         this.bot.on("callback_query", async (query) => {
             if (!query.data?.startsWith("payment_info_")) return;
 
-            const infoText = `
-📋 **Instructions for paying with USDT TRC20:**
-
-1️⃣ Open your crypto wallet
-2️⃣ Select to send USDT on the TRON network (TRC20)
-3️⃣ Copy the recipient's address from the message above
-4️⃣ Enter the exact amount (very important!)
-5️⃣ Send the transaction
-6️⃣ Use the /check command or button to verify
+            const paymentId = query.data.split("payment_info_")[1];
+            const payment = await this.prisma.payment.findUnique({
+                where: { cryptoTxHash: paymentId },
+            });
+            const currency = getCryptoCurrencyInfo(
+                payment?.currency || DEFAULT_CRYPTO_CURRENCY
+            );
+            const userId = await this.getOrCreateUser(query.from);
+            const locale = await this.userService.getLocale(userId);
 
-⚠️ **Important points:**
-• Use only the TRON (TRC20) network
-• Send the exact amount
-• Network fees (10.5 USD) are paid separately
-• The payment is valid for 60 minutes
-            `;
+            const infoText = t(locale, "crypto.instructions", {
+                name: currency.name,
+                ticker: currency.ticker,
+                network: currency.network,
+            });
 
             await this.bot.answerCallbackQuery(query.id, {
-                text: "Instruction sent!",
+                text: t(locale, "crypto.instructionsSent"),
             });
 
             await this.bot.sendMessage(query.message!.chat.id, infoText, {
@@ -700,49 +1509,407 @@ After sending, use the /check command or click the “Check payment” button
         });
     }
 
+    // Создание крипто-платежа и отправка реквизитов пользователю
+    private async sendCryptoPayment(
+        query: TelegramBot.CallbackQuery,
+        userId: string,
+        planId: string,
+        payCurrency: string,
+        locale: Locale,
+        options: PaymentOptions = {}
+    ) {
+        const result = await this.paymentService.createCryptoPayment(
+            userId,
+            planId,
+            payCurrency,
+            options
+        );
+
+        const keyboard = {
+            inline_keyboard: [
+                [
+                    {
+                        text: t(locale, "crypto.checkButton"),
+                        callback_data: `check_payment_${result.paymentId}`,
+                    },
+                ],
+                [
+                    {
+                        text: t(locale, "crypto.instructionsButton"),
+                        callback_data: `payment_info_${result.paymentId}`,
+                    },
+                ],
+            ],
+        };
+
+        const message = t(locale, "crypto.details", {
+            name: result.currency.name,
+            amount: result.amount,
+            ticker: result.currency.ticker,
+            network: result.currency.network,
+            address: result.address,
+            paymentId: result.paymentId,
+        });
+
+        await this.bot.sendMessage(query.message!.chat.id, message, {
+            parse_mode: "Markdown",
+            reply_markup: keyboard,
+        });
+
+        await this.bot.answerCallbackQuery(query.id, {
+            text: t(locale, "crypto.detailsSent"),
+        });
+    }
+
     private async getOrCreateUser(
-        telegramUser: TelegramBot.User
+        telegramUser: TelegramBot.User,
+        startPayload?: string
     ): Promise<string> {
-        let user = await this.prisma.user.findUnique({
-            where: { telegramId: BigInt(telegramUser.id) },
-        });
+        return this.userService.getOrCreateUser(telegramUser, startPayload);
+    }
+
+    // Описания команд для каждого языка; без language_code — язык по умолчанию
+    private setupCommands() {
+        const commands = (locale: Locale) =>
+            BOT_COMMANDS.map((command) => ({
+                command,
+                description: t(locale, `command.${command}`),
+            }));
+
+        this.bot.setMyCommands(commands(getDefaultLocale()));
+        for (const locale of LOCALES) {
+            this.bot.setMyCommands(commands(locale), {
+                language_code: locale,
+            });
+        }
+    }
 
-        if (!user) {
-            user = await this.prisma.user.create({
-                data: {
-                    telegramId: BigInt(telegramUser.id),
-                    username: telegramUser.username,
-                    firstName: telegramUser.first_name,
-                    lastName: telegramUser.last_name,
+    private buildMenuKeyboard(locale: Locale): TelegramBot.ReplyKeyboardMarkup {
+        return {
+            keyboard: [
+                [
+                    { text: t(locale, "menu.price") },
+                    { text: t(locale, "menu.mySubscription") },
+                ],
+            ],
+            resize_keyboard: true,
+            one_time_keyboard: false,
+        };
+    }
+
+    private async getBotUsername(): Promise<string> {
+        if (!this.botUsername) {
+            const botInfo = await this.bot.getMe();
+            this.botUsername = botInfo.username!;
+        }
+        return this.botUsername;
+    }
+
+    // Клавиатура с личными ссылками-приглашениями во все перечисленные
+    // каналы; ссылки привязаны к пользователю и платежу
+    async buildJoinKeyboard(
+        channels: Channel[],
+        locale: Locale,
+        userId: string,
+        paymentId?: string | null
+    ): Promise<TelegramBot.InlineKeyboardMarkup> {
+        const rows: TelegramBot.InlineKeyboardButton[][] = [];
+
+        for (const channel of channels) {
+            rows.push([
+                await this.buildJoinButton(
+                    channel,
+                    channels.length > 1,
+                    locale,
+                    userId,
+                    paymentId
+                ),
+            ]);
+        }
+
+        return { inline_keyboard: rows };
+    }
+
+    private async buildJoinButton(
+        channel: Channel,
+        named: boolean,
+        locale: Locale,
+        userId: string,
+        paymentId?: string | null
+    ): Promise<TelegramBot.InlineKeyboardButton> {
+        return {
+            text: named
+                ? t(locale, "join.namedChannelButton", {
+                      channel: channel.title,
+                  })
+                : t(locale, "join.channelButton"),
+            url: await this.inviteLinkService.issue(
+                channel.telegramChatId,
+                userId,
+                paymentId
+            ),
+        };
+    }
+
+    // Клавиатура экрана подписки: продление и автопродление по планам
+    private async buildSubscriptionKeyboard(
+        userId: string,
+        locale: Locale
+    ): Promise<TelegramBot.InlineKeyboardMarkup> {
+        const [subscriptions, renewals] = await Promise.all([
+            this.prisma.subscription.findMany({
+                where: {
+                    userId,
+                    status: { in: ACCESS_STATUSES },
+                    plan: { isActive: true },
                 },
+                include: { plan: true },
+            }),
+            this.autoRenewService.getActiveRenewals(userId),
+        ]);
+
+        // Пробный доступ и бонусы без плана продлевать нечем
+        const plans = new Map(
+            subscriptions.map((subscription) => [
+                subscription.planId!,
+                subscription.plan!,
+            ])
+        );
+
+        return {
+            inline_keyboard: [
+                [
+                    {
+                        text: t(locale, "subscription.renewButton"),
+                        callback_data: "back_to_plans",
+                    },
+                ],
+                [
+                    {
+                        text: t(locale, "subscription.reissueButton"),
+                        callback_data: "reissue_links",
+                    },
+                ],
+                ...Array.from(plans.values()).map((plan) => {
+                    const renewal = renewals.find(
+                        (renewal) => renewal.planId === plan.id
+                    );
+
+                    return [
+                        {
+                            text: t(locale, "subscription.autoRenewButton", {
+                                plan: planName(plan, locale),
+                                state: t(
+                                    locale,
+                                    renewal
+                                        ? renewal.method ===
+                                          AutoRenewMethod.TELEGRAM_STARS
+                                            ? "subscription.autoRenewStars"
+                                            : "subscription.autoRenewBalance"
+                                        : "subscription.autoRenewOff"
+                                ),
+                            }),
+                            callback_data: `autorenew_${plan.id}`,
+                        },
+                    ];
+                }),
+            ],
+        };
+    }
+
+    // Метод для обработки успешных крипто-платежей
+    async handleCryptoPaymentSuccess(
+        userId: string,
+        planId: string,
+        paymentId: string
+    ) {
+        try {
+            const user = await this.prisma.user.findUnique({
+                where: { id: userId },
+            });
+
+            if (!user) {
+                console.error(`User not found: ${userId}`);
+                return;
+            }
+
+            const locale = getUserLocale(user);
+
+            // Генерируем одноразовые ссылки-приглашения в каналы плана
+            const keyboard = await this.buildJoinKeyboard(
+                await this.channelService.getPlanChannels(planId),
+                locale,
+                userId,
+                paymentId
+            );
+
+            await this.bot.sendMessage(
+                Number(user.telegramId),
+                t(locale, "payment.cryptoSuccess"),
+                { reply_markup: keyboard }
+            );
+        } catch (error) {
+            console.error("Error handling crypto payment success:", error);
+        }
+    }
+
+    // Уведомление о выдаче, продлении или отзыве доступа администратором
+    async handleAccessChanged(
+        user: User,
+        key: MessageKey,
+        params: Record<string, string | number> = {},
+        channels: Channel[] = []
+    ) {
+        const locale = getUserLocale(user);
+
+        try {
+            await this.bot.sendMessage(
+                Number(user.telegramId),
+                t(locale, key, params),
+                channels.length
+                    ? {
+                          reply_markup: await this.buildJoinKeyboard(
+                              channels,
+                              locale,
+                              user.id
+                          ),
+                      }
+                    : {}
+            );
+        } catch (error) {
+            console.log(
+                `Could not send access message to user ${user.telegramId}:`,
+                error.message
+            );
+        }
+    }
+
+    // Метод для отправки покупателю ссылки на подарок
+    async handleGiftPurchased(gift: any) {
+        try {
+            const buyer = await this.prisma.user.findUnique({
+                where: { id: gift.buyerId },
             });
+
+            if (!buyer) {
+                console.error(`User not found: ${gift.buyerId}`);
+                return;
+            }
+
+            const botUsername = await this.getBotUsername();
+            const giftLink = `https://t.me/${botUsername}?start=${GIFT_PAYLOAD_PREFIX}${gift.code}`;
+            const locale = getUserLocale(buyer);
+
+            await this.bot.sendMessage(
+                Number(buyer.telegramId),
+                t(locale, "gift.ready", {
+                    plan: gift.plan
+                        ? planName(gift.plan, locale)
+                        : t(locale, "gift.defaultPlan"),
+                    link: giftLink,
+                    date: formatDate(locale, gift.expiresAt),
+                })
+            );
+        } catch (error) {
+            console.error("Error handling gift purchase:", error);
+        }
+    }
+
+    // Активация подарка по deep-link и уведомление покупателя
+    private async redeemGift(
+        msg: TelegramBot.Message,
+        userId: string,
+        code: string
+    ) {
+        const locale = await this.userService.getLocale(userId);
+
+        let result;
+        try {
+            result = await this.giftService.redeemGift(code, userId);
+        } catch (error) {
+            console.log(`Gift ${code} redemption failed:`, error.message);
+            await this.bot.sendMessage(
+                msg.chat.id,
+                `❌ ${
+                    isMessageKey(error.message)
+                        ? t(locale, error.message)
+                        : error.message
+                }`
+            );
+            return;
         }
 
-        return user.id;
+        const keyboard = await this.buildJoinKeyboard(
+            await this.channelService.getPlanChannels(result.gift.planId),
+            locale,
+            userId,
+            result.gift.paymentId
+        );
+        const endDate = result.subscriptions[0].endDate;
+        await this.bot.sendMessage(
+            msg.chat.id,
+            t(locale, "gift.received", {
+                plan: result.gift.plan
+                    ? planName(result.gift.plan, locale)
+                    : t(locale, "gift.defaultPlan"),
+                date: formatDate(locale, endDate),
+            }),
+            { reply_markup: keyboard }
+        );
+
+        try {
+            await this.bot.sendMessage(
+                Number(result.gift.buyer.telegramId),
+                t(getUserLocale(result.gift.buyer), "gift.redeemed")
+            );
+        } catch (error) {
+            console.log(
+                `Could not notify gift buyer ${result.gift.buyer.telegramId}:`,
+                error.message
+            );
+        }
     }
 
-    private async createInviteLink(): Promise<string> {
+    // Метод для уведомления пригласившего о бонусных днях
+    async handleReferralReward(
+        telegramId: bigint,
+        bonusDays: number,
+        bonusUsd = 0
+    ) {
         try {
-            // Создаем одноразовую ссылку-приглашение
-            const inviteLink = await this.bot.createChatInviteLink(
-                process.env.CHANNEL_ID!,
-                {
-                    name: `Invite_${Date.now()}`,
-                    expire_date: Math.floor(Date.now() / 1000) + 60 * 60 * 24,
-                    member_limit: 1, // Только для одного пользователя
-                    creates_join_request: false, // Прямое добавление без запроса
-                }
+            const locale = getUserLocale(
+                await this.prisma.user.findUnique({ where: { telegramId } })
             );
+            const rewards = [
+                bonusDays > 0
+                    ? t(locale, "referrals.rewardDays", { days: bonusDays })
+                    : null,
+                bonusUsd > 0
+                    ? t(locale, "referrals.rewardUsd", {
+                          amount: bonusUsd.toFixed(2),
+                      })
+                    : null,
+            ].filter(Boolean);
 
-            return inviteLink.invite_link;
+            await this.bot.sendMessage(
+                Number(telegramId),
+                t(locale, "referrals.rewarded", {
+                    rewards: rewards.join(t(locale, "common.and")),
+                })
+            );
         } catch (error) {
-            console.error("Error creating invite link:", error);
-            throw new Error("Failed to create invite link");
+            console.log(
+                `Could not send referral reward message to user ${telegramId}:`,
+                error.message
+            );
         }
     }
 
-    // Метод для обработки успешных крипто-платежей
-    async handleCryptoPaymentSuccess(userId: string) {
+    // Метод для уведомления о частичной оплате и выставленной доплате
+    async handleCryptoPartialPayment(
+        userId: string,
+        details: { paymentId: string; received: number; topUp: any }
+    ) {
         try {
             const user = await this.prisma.user.findUnique({
                 where: { id: userId },
@@ -753,52 +1920,213 @@ After sending, use the /check command or click the “Check payment” button
                 return;
             }
 
-            // Генерируем одноразовую ссылку-приглашение
-            const inviteLink = await this.createInviteLink();
+            const { topUp } = details;
+            const currency = getCryptoCurrencyInfo(topUp.currency);
+            const locale = getUserLocale(user);
 
             const keyboard = {
                 inline_keyboard: [
                     [
                         {
-                            text: "🔗 Join channel",
-                            url: inviteLink,
+                            text: t(locale, "crypto.checkButton"),
+                            callback_data: `check_payment_${topUp.cryptoTxHash}`,
                         },
                     ],
                 ],
             };
 
+            const message = t(locale, "crypto.partial", {
+                received: details.received,
+                remaining: String(topUp.expectedAmount),
+                ticker: currency.ticker,
+                network: currency.network,
+                address: topUp.cryptoAddress,
+                paymentId: topUp.cryptoTxHash,
+            });
+
+            await this.bot.sendMessage(Number(user.telegramId), message, {
+                parse_mode: "Markdown",
+                reply_markup: keyboard,
+            });
+
+            // Уведомляем администраторов, чтобы они могли принять недоплату
+            for (const adminId of getAdminIds()) {
+                try {
+                    await this.bot.sendMessage(
+                        adminId,
+                        `⚠️ Partial payment ${details.paymentId} from user ${user.telegramId}: received ${details.received}, remaining ${topUp.expectedAmount} ${currency.ticker}.\nAccept the shortfall: /accept ${details.paymentId}`
+                    );
+                } catch (adminError) {
+                    console.log(
+                        `Could not notify admin ${adminId}:`,
+                        adminError.message
+                    );
+                }
+            }
+        } catch (error) {
+            console.error("Error handling crypto partial payment:", error);
+        }
+    }
+
+    private async askPromoCode(chatId: number, from: TelegramBot.User) {
+        const userId = await this.getOrCreateUser(from);
+        const locale = await this.userService.getLocale(userId);
+
+        await this.bot.sendMessage(chatId, t(locale, "promo.prompt"), {
+            reply_markup: { force_reply: true },
+        });
+    }
+
+    private async applyPromoCode(msg: TelegramBot.Message, code: string) {
+        let locale = getDefaultLocale();
+        try {
+            const userId = await this.getOrCreateUser(msg.from!);
+            locale = await this.userService.getLocale(userId);
+            const { coupon, error } = await this.couponService.applyCoupon(
+                userId,
+                code
+            );
+
+            if (error) {
+                await this.bot.sendMessage(
+                    msg.chat.id,
+                    `❌ ${t(locale, error)}`
+                );
+                return;
+            }
+
+            const discountText =
+                coupon!.discountType === "PERCENT"
+                    ? `${coupon!.discountValue}%`
+                    : `$${coupon!.discountValue}`;
+
             await this.bot.sendMessage(
-                Number(user.telegramId),
-                "✅ Your payment has been successfully processed! You now have access to the channel.",
-                { reply_markup: keyboard }
+                msg.chat.id,
+                t(locale, "promo.applied", {
+                    code: coupon!.code,
+                    discount: discountText,
+                }),
+                { reply_markup: await this.buildPlanKeyboard(locale) }
             );
         } catch (error) {
-            console.error("Error handling crypto payment success:", error);
+            console.error("Error applying promo code:", error);
+            await this.bot.sendMessage(
+                msg.chat.id,
+                t(locale, "promo.error")
+            );
         }
     }
 
-    private getPlanName(planType: PlanType): string {
-        const names = {
-            [PlanType.DAY]: "day",
-            [PlanType.WEEK]: "week",
-            [PlanType.MONTH]: "month",
+    // Клавиатура выбора каналов и пакетов, если каналов несколько
+    private async buildChannelKeyboard(
+        channels: Channel[],
+        locale: Locale
+    ): Promise<TelegramBot.InlineKeyboardMarkup> {
+        const bundles = await this.planService.getActiveBundles();
+
+        return {
+            inline_keyboard: [
+                ...channels.map((channel) => [
+                    {
+                        text: t(locale, "plans.channelButton", {
+                            channel: channel.title,
+                        }),
+                        callback_data: `channel_${channel.id}`,
+                    },
+                ]),
+                ...bundles.map((plan) => [
+                    {
+                        text: t(locale, "plans.bundleButton", {
+                            plan: planName(plan, locale),
+                        }),
+                        callback_data: `plan_${plan.id}`,
+                    },
+                ]),
+                [
+                    {
+                        text: t(locale, "plans.promoButton"),
+                        callback_data: "promo_enter",
+                    },
+                ],
+            ],
         };
-        return names[planType];
     }
 
-    private getPaymentStatusText(status: string): string {
-        const statusMap: { [key: string]: string } = {
-            waiting: "Waiting",
-            confirming: "Confirming",
-            confirmed: "Confirmed, proceeding",
-            sending: "Sending",
-            partially_paid: "Partially paid",
-            finished: "Finished",
-            failed: "Failed",
-            refunded: "Refunded",
-            expired: "Expired",
+    // Клавиатура выбора плана канала (с пробным доступом, если он положен).
+    // Без channelId при нескольких каналах сначала предлагается выбрать канал
+    async buildPlanKeyboard(
+        locale: Locale,
+        userId?: string,
+        channelId?: string
+    ): Promise<TelegramBot.InlineKeyboardMarkup> {
+        const channels = await this.channelService.getActiveChannels();
+
+        if (!channelId && channels.length > 1) {
+            return this.buildChannelKeyboard(channels, locale);
+        }
+
+        const channel = channelId
+            ? channels.find((c) => c.id === channelId)
+            : channels[0];
+        const plans = channel
+            ? await this.planService.getActivePlans(channel.id)
+            : [];
+        const trialRows: TelegramBot.InlineKeyboardButton[][] = [];
+        const backRows: TelegramBot.InlineKeyboardButton[][] = [];
+
+        if (
+            channel &&
+            userId &&
+            (await this.subscriptionService.isTrialAvailable(userId))
+        ) {
+            const { durationHours } = SubscriptionService.getTrialConfig();
+            trialRows.push([
+                {
+                    text: t(locale, "plans.trialButton", {
+                        hours: durationHours,
+                    }),
+                    callback_data: `trial_start_${channel.id}`,
+                },
+            ]);
+        }
+
+        if (channels.length > 1) {
+            backRows.push([
+                {
+                    text: t(locale, "plans.allChannels"),
+                    callback_data: "back_to_plans",
+                },
+            ]);
+        }
+
+        return {
+            inline_keyboard: [
+                ...trialRows,
+                ...plans.map((plan) => [
+                    {
+                        text: t(
+                            locale,
+                            plan.channels.length > 1
+                                ? "plans.bundleButton"
+                                : "plans.planButton",
+                            { plan: planName(plan, locale) }
+                        ),
+                        callback_data: `plan_${plan.id}`,
+                    },
+                ]),
+                [
+                    {
+                        text: t(locale, "plans.promoButton"),
+                        callback_data: "promo_enter",
+                    },
+                ],
+                ...backRows,
+            ],
         };
+    }
 
-        return statusMap[status] || status;
+    private getPaymentStatusText(status: string, locale: Locale): string {
+        const key = `cryptoStatus.${status}`;
+        return isMessageKey(key) ? t(locale, key) : status;
     }
 }
@@ -1 +1,2 @@
 export * from "./PaymentHandlers";
+export * from "./AdminHandlers";
@@ -0,0 +1,334 @@
+// Английские тексты — эталонный набор ключей для остальных языков
+export const en = {
+    // Команды в меню бота
+    "command.start": "Subscribe to the channel",
+    "command.mysubscription": "Show your subscription status",
+    "command.check": "Check payment status",
+    "command.promo": "Apply a promo code",
+    "command.referrals": "Invite friends and earn bonus days",
+    "command.balance": "Show your balance",
+    "command.history": "Show your subscription history",
+    "command.cancelrenewal": "Turn off automatic renewal",
+    "command.language": "Change language",
+
+    // Основное меню
+    "menu.price": "📋 Price",
+    "menu.mySubscription": "👤 My Subscription",
+    "start.welcome": `❤️‍🔥With this bot, you can access my secret channel with hot content with my boyfriend.
+❤️‍🔥Quick and confidential.
+❤️‍🔥Photos, videos and interactive content that is actively updated.
+❤️‍🔥You can see the entire archive, and I never delete old content.
+❤️‍🔥Click start to join👇🏼`,
+
+    "common.back": "← Back",
+    "common.and": " and ",
+
+    "language.choose": "🌐 Choose your language:",
+    "language.changed": "✅ Language changed to English.",
+
+    // Выбор канала и плана
+    "plans.select": "Select a subscription plan:",
+    "plans.selectInChannel": "📢 {channel}\n\nSelect a subscription plan:",
+    "plans.planButton": "📅 For {plan}",
+    "plans.bundleButton": "📦 {plan}",
+    "plans.channelButton": "📢 {channel}",
+    "plans.trialButton": "🎁 Free trial for {hours} hours",
+    "plans.promoButton": "🎟 Enter promo code",
+    "plans.allChannels": "← All channels",
+    "plans.planUnavailable": "This plan is no longer available.",
+    "plans.channelUnavailable": "This channel is no longer available.",
+
+    // Экран подписки
+    "subscription.activeHeader": "✅ **Your subscription is active!**",
+    "subscription.graceHeader":
+        "⚠️ **Your subscription has ended, please renew!**",
+    "subscription.activeDetails":
+        "📢 **Channel:** {channel}\n📅 **Plan:** {plan}\n⏰ **Valid until:** {endDate}\n⏳ **Days remaining:** {days}\n💎 **Status:** Active",
+    "subscription.graceDetails":
+        "📢 **Channel:** {channel}\n📅 **Plan:** {plan}\n⏰ **Ended:** {endDate}\n⚠️ **Status:** Grace period, renew before {removalDate} to keep your access",
+    "subscription.accessGranted": "🔗 **Channel access:** Granted",
+    "subscription.freeTrial": "Free trial",
+    "subscription.bonusAccess": "Bonus access",
+    "subscription.none": "❌ **You don't have an active subscription**",
+    "subscription.lastPayment":
+        "📋 **Last payment:**\n{emoji} {status}\n💰 {amount} {currency}",
+    "subscription.choosePlanHint":
+        "To get access to the channel, please select and pay for a plan.",
+    "subscription.renewButton": "🔄 Renew Subscription",
+    "subscription.reissueButton": "🔗 New invite link",
+    "subscription.choosePlanButton": "📋 Choose Plan",
+    "subscription.autoRenewButton": "🔁 Auto-renew {plan}: {state}",
+    "subscription.autoRenewOff": "OFF",
+    "subscription.autoRenewStars": "ON (Stars)",
+    "subscription.autoRenewBalance": "ON (balance)",
+    "subscription.loadError":
+        "❌ Error loading subscription information. Please try again later.",
+
+    // Статусы платежей
+    "paymentStatus.PENDING": "Awaiting payment",
+    "paymentStatus.PARTIALLY_PAID": "Partially paid",
+    "paymentStatus.COMPLETED": "Completed",
+    "paymentStatus.EXPIRED": "Expired",
+    "paymentStatus.FAILED": "Failed",
+    "paymentStatus.REFUNDED": "Refunded",
+
+    // Статусы NOWPayments
+    "cryptoStatus.waiting": "Waiting",
+    "cryptoStatus.confirming": "Confirming",
+    "cryptoStatus.confirmed": "Confirmed, proceeding",
+    "cryptoStatus.sending": "Sending",
+    "cryptoStatus.partially_paid": "Partially paid",
+    "cryptoStatus.finished": "Finished",
+    "cryptoStatus.failed": "Failed",
+    "cryptoStatus.refunded": "Refunded",
+    "cryptoStatus.expired": "Expired",
+
+    // Вступление в канал
+    "join.approved":
+        "✅ Welcome! Your subscription is active, access to the channel has been granted.",
+    "join.required":
+        "❌ A subscription is required to access the channel.\n\nSelect a plan:",
+    "join.channelButton": "🔗 Join channel",
+    "join.namedChannelButton": "🔗 Join {channel}",
+
+    // Личные ссылки-приглашения
+    "invite.reissued":
+        "🔗 Your new invite link is below. Previous unused links no longer work. The link is personal — please don't share it.",
+    "invite.noSubscription": "You have no active subscription.",
+    "invite.error": "❌ Could not create an invite link. Please try again later.",
+    "invite.misused":
+        "⚠️ Your invite link to {channel} was used by someone else, so it no longer works. Get a new one in /mysubscription. Invite links are personal — please don't share them.",
+
+    // Оплата
+    "checkout.notFound": "Payment expired or not found",
+    "checkout.error": "Payment error.",
+    "invoice.title": "Subscription for {plan}",
+    "invoice.giftTitle": "Gift subscription for {plan}",
+    "invoice.description": "Channel permission for {plan}",
+    "invoice.subscriptionTitle": "Monthly subscription for {plan}",
+    "invoice.subscriptionDescription":
+        "Channel permission for {plan}, renewed automatically every 30 days",
+    "invoice.label": "Subscription",
+    "payment.success":
+        "✅ Payment successfully processed! You have gained access to the channel.",
+    "payment.cryptoSuccess":
+        "✅ Your payment has been successfully processed! You now have access to the channel.",
+    "payment.starsRenewed":
+        "🔁 Your Stars subscription has been renewed automatically.",
+    "payment.processingError":
+        "❌ Error processing payment. Please contact owner for help.",
+
+    "pay.starsButton": "⭐ Pay with TGStars (no comission)",
+    "pay.cryptoButton": "🪙 Pay with crypto",
+    "pay.starsSubscriptionButton": "🔁 Subscribe monthly with TGStars",
+    "pay.balanceButton": "💰 Pay from balance (${balance})",
+    "pay.forMyselfButton": "👤 Buy for myself",
+    "pay.giftButton": "🎁 Buy as a gift",
+    "pay.selectMethod":
+        "Selected tariff: {plan}{channels}{gift}\nPrice: {stars}⭐ / ${usd}{coupon}\nSelect a payment method:",
+    "pay.accessTo": "\n📢 Access to: {channels}",
+    "pay.giftHint": "\n🎁 You will receive a gift link to send to a friend",
+    "pay.couponApplied": "\n🎟 Promo code {code} applied",
+    "pay.invoiceSent": "The invoice has been sent! Please check your messages.",
+    "pay.starsSubscriptionInfo":
+        "🔁 Your subscription will renew automatically every 30 days. You can turn this off at any time with /cancelrenewal.",
+    "pay.subscribeButton": "⭐ Subscribe",
+    "pay.cryptoUnavailable":
+        "Crypto payments are temporarily unavailable for this plan.",
+    "pay.selectCoin": "Selected tariff: {plan}\nSelect a coin:",
+    "pay.notEnoughFunds":
+        "Not enough funds: the plan costs ${price}, your balance is ${balance}.",
+    "pay.balanceGiftPaid":
+        "✅ Paid from your balance! Your gift link has been sent.",
+    "pay.balancePaid":
+        "✅ Paid from your balance! Subscription activated.\nRemaining balance: ${balance}",
+    "pay.error": "Error creating payment. Please try again later.",
+
+    // Крипто-платежи
+    "crypto.details": `
+💳 **{name} crypto payment**
+
+💰 **Amount:** \`{amount}\` {ticker}
+🌐 **Network:** {network}
+📍 **Address:** \`{address}\`
+🆔 **Payment ID:** \`{paymentId}\`
+
+⏰ **Payment time:** 60 minutes
+⚠️ **Important:** Send the exact amount to the specified address
+⚠️ **Important:** Transfer fees are included in the price
+
+After sending, use the /check command or click the “Check payment” button
+        `,
+    "crypto.detailsSent": "Payment details have been sent!",
+    "crypto.checkButton": "🔄 Check payment",
+    "crypto.instructionsButton": "ℹ️ Payment instructions",
+    "crypto.instructions": `
+📋 **Instructions for paying with {name}:**
+
+1️⃣ Open your crypto wallet
+2️⃣ Select to send {ticker} on the {network} network
+3️⃣ Copy the recipient's address from the message above
+4️⃣ Enter the exact amount (very important!)
+5️⃣ Send the transaction
+6️⃣ Use the /check command or button to verify
+
+⚠️ **Important points:**
+• Use only the {network} network
+• Send the exact amount
+• Network fees are paid separately
+• The payment is valid for 60 minutes
+            `,
+    "crypto.instructionsSent": "Instruction sent!",
+    "crypto.partial": `
+⚠️ **Your payment was received only partially**
+
+✅ **Received:** \`{received}\` {ticker}
+❗ **Remaining:** \`{remaining}\` {ticker}
+🌐 **Network:** {network}
+📍 **Address:** \`{address}\`
+🆔 **Payment ID:** \`{paymentId}\`
+
+Send the remaining amount to the address above within 60 minutes. Your subscription will be activated as soon as the full amount is received.
+            `,
+
+    // Проверка платежа
+    "check.noPending": "❌ You have no pending crypto payments to verify.",
+    "check.checking": "🔄 Checking payment status...",
+    "check.checkingShort": "🔄 Checking payment...",
+    "check.giftConfirmed": "✅ Payment confirmed! Your gift link has been sent.",
+    "check.confirmed": "✅ Payment confirmed! Subscription activated.",
+    "check.failed": "❌ Payment failed. Try creating a new payment.",
+    "check.failedRestart":
+        "❌ Payment failed. Try creating a new payment with the command /start.",
+    "check.status":
+        "⏳ Payment status: {status}{remaining}\n\nPlease repeat the /check command in a few minutes.",
+    "check.remaining": "\nRemaining to pay: {amount} {currency}",
+    "check.statusRetry":
+        "⏳ Payment status: {status}\n\nPlease try again in a few minutes.",
+    "check.againButton": "🔄 Check again",
+    "check.error": "❌ Error checking payment. Please try again later.",
+    "check.errorShort": "❌ Error checking payment",
+
+    // Пробный доступ
+    "trial.active": "🎁 Your free trial is active until {endDate}. Enjoy!",
+    "trial.unavailable": "The free trial is not available for your account.",
+    "trial.error": "Error starting the free trial. Please try again later.",
+
+    // Промокоды
+    "promo.prompt": "🎟 Send your promo code:",
+    "promo.applied":
+        "🎟 Promo code {code} applied: {discount} off your next purchase.\n\nSelect a subscription plan:",
+    "promo.error": "❌ Error applying promo code. Please try again later.",
+    "coupon.notFound": "Promo code not found.",
+    "coupon.expired": "This promo code has expired.",
+    "coupon.wrongPlan": "This promo code does not apply to the selected plan.",
+    "coupon.limitReached": "This promo code has reached its usage limit.",
+    "coupon.alreadyUsed": "You have already used this promo code.",
+
+    // Подарки
+    "gift.ready":
+        "🎁 Your gift is ready!\n\nPlan: {plan}\nSend this link to the person you want to gift access to:\n{link}\n\nThe link can be used once and is valid until {date}.",
+    "gift.received":
+        "🎁 You've received a gift subscription: {plan}!\nAccess is active until {date}.",
+    "gift.redeemed": "🎉 Your gift has been redeemed!",
+    "gift.defaultPlan": "Subscription",
+    "gift.invalid": "This gift code is invalid or has already been used.",
+    "gift.expired": "This gift code has expired.",
+    "gift.own":
+        "You can't redeem your own gift. Send the link to a friend instead.",
+    "gift.used": "This gift code has already been used.",
+
+    // Реферальная программа
+    "referrals.info":
+        "🤝 Your referral link:\n{link}\n\n{reward}👥 Invited: {invited}\n💳 Subscribed: {converted}\n⏳ Days earned: {days}",
+    "referrals.rewardDaysInfo":
+        "🎁 You get {days} bonus day(s) for every friend who buys a subscription.\n\n",
+    "referrals.rewardUsdInfo":
+        "💰 You get ${amount} on your balance for every friend who buys a subscription.\n\n",
+    "referrals.error":
+        "❌ Error loading referral information. Please try again later.",
+    "referrals.rewarded":
+        "🎉 A friend you invited has subscribed! You received {rewards}.",
+    "referrals.rewardDays": "{days} bonus day(s) of access",
+    "referrals.rewardUsd": "${amount} on your balance",
+
+    // Баланс
+    "balance.info":
+        "💰 Your balance: ${balance}\nYou can use it to pay for any plan.{history}",
+    "balance.history": "\n\n📒 Recent operations:\n{entries}",
+    "balance.error": "❌ Error loading your balance. Please try again later.",
+    "balance.entry.DEPOSIT": "Deposit",
+    "balance.entry.PURCHASE": "Purchase",
+    "balance.entry.REFUND": "Refund",
+    "balance.entry.BONUS": "Bonus",
+    "balance.entry.ADJUSTMENT": "Adjustment",
+
+    // История подписки
+    "history.info": "📜 Your subscription history:\n\n{entries}",
+    "history.empty": "You have no subscription history yet.",
+    "history.error": "❌ Error loading your history. Please try again later.",
+    "history.revoked": " (cancelled)",
+    "history.source.PAYMENT": "Payment",
+    "history.source.TRIAL": "Trial",
+    "history.source.GIFT": "Gift",
+    "history.source.REFERRAL": "Referral bonus",
+    "history.source.ADMIN": "Granted by admin",
+
+    // Автопродление
+    "renewal.cancelled":
+        "✅ Automatic renewal is turned off for: {plans}\nYour access stays active until the end of the paid period.",
+    "renewal.none": "You have no automatic renewals.",
+    "renewal.cancelError":
+        "❌ Error cancelling automatic renewal. Please try again later.",
+    "renewal.turnedOff": "Automatic renewal is turned off.",
+    "renewal.turnedOn":
+        "Automatic renewal is on: ${price} will be charged from your balance shortly before your subscription ends. Your balance: ${balance}.",
+    "renewal.toggleError":
+        "Error changing automatic renewal. Please try again later.",
+    "renewal.renewedFromBalance":
+        "🔁 Your {plan} subscription has been renewed automatically from your balance.",
+    "renewal.balanceFailed":
+        "⚠️ We could not renew your {plan} subscription from your balance: {reason}. Renew manually to keep your access:",
+    "renewal.reasonFunds": "not enough funds",
+    "renewal.reasonPlan": "the plan is no longer available",
+    "renewal.starsFailed":
+        "⚠️ Your {plan} Stars subscription was not renewed. Make sure you have enough Stars, or renew manually:",
+
+    // Окончание подписки
+    "reminder.subscriptionEnds":
+        "⏰ Your subscription to {channel} ends in {time}. Renew now to keep your access:",
+    "reminder.trialEnds":
+        "⏰ Your free trial to {channel} ends in {time}. Renew now to keep your access:",
+    "reminder.allPlans": "📋 All plans",
+    "reminder.cryptoButton": "🪙 {plan} · ${price} in crypto",
+    "expiry.graceStarted":
+        "⏰ Your subscription to {channel} has ended. You keep access until {date}. Renew now to stay in the channel:",
+    "expiry.trialGraceStarted":
+        "⏰ Your free trial to {channel} has ended. You keep access until {date}. Renew now to stay in the channel:",
+    "expiry.trialEnded":
+        "⏰ Your free trial has ended. Liked the content? Choose a plan to keep your access:",
+    "expiry.subscriptionEnded":
+        "⏰ Your subscription has expired. To renew access to the channel, choose a new plan with /start",
+
+    "time.days": "{count} day(s)",
+    "time.hours": "{count} hour(s)",
+    "time.minutes": "{count} minute(s)",
+
+    // Действия администратора
+    "admin.granted":
+        "🎁 An administrator granted you {days} day(s) of access to {channel}.",
+    "admin.extended": "🎁 Your subscription has been extended by {days} day(s).",
+    "admin.revoked": "⛔️ Your access has been revoked by an administrator.",
+    "admin.credited":
+        "💰 ${amount} has been credited to your balance.{reason}\nUse /balance to see it.",
+    "admin.creditReason": "\nReason: {reason}",
+    "refund.message": "💸 Your payment has been refunded. {method}\n{access}",
+    "refund.stars": "The Stars have been returned to your account.",
+    "refund.balance": "The amount has been credited to your balance, see /balance.",
+    "refund.manual": "The crypto refund will be sent to you manually.",
+    "refund.giftCancelled": "The gift code has been cancelled.",
+    "refund.shortened": "Your subscription has been shortened accordingly.",
+    "refund.revoked": "Your access to the channel has been revoked.",
+};
+
+export type Messages = Record<keyof typeof en, string>;
@@ -0,0 +1,116 @@
+import { en, Messages } from "./en";
+import { ru } from "./ru";
+
+export type MessageKey = keyof typeof en;
+
+const catalogs = { en, ru } satisfies Record<string, Messages>;
+
+export type Locale = keyof typeof catalogs;
+
+export const LOCALES = Object.keys(catalogs) as Locale[];
+
+export const LOCALE_NAMES: Record<Locale, string> = {
+    en: "🇬🇧 English",
+    ru: "🇷🇺 Русский",
+};
+
+// Форматы дат для Intl
+const DATE_LOCALES: Record<Locale, string> = {
+    en: "en-US",
+    ru: "ru-RU",
+};
+
+export function isLocale(code: string | null | undefined): code is Locale {
+    return !!code && code in catalogs;
+}
+
+/**
+ * Язык по умолчанию (DEFAULT_LANGUAGE), если язык пользователя не поддерживается
+ */
+export function getDefaultLocale(): Locale {
+    const code = process.env.DEFAULT_LANGUAGE;
+    return isLocale(code) ? code : "en";
+}
+
+/**
+ * Язык по коду Telegram ("ru", "en-GB" и т.п.)
+ */
+export function resolveLocale(code: string | null | undefined): Locale {
+    const base = code?.split("-")[0].toLowerCase();
+    return isLocale(base) ? base : getDefaultLocale();
+}
+
+/**
+ * Язык пользователя: выбранный командой /language или из Telegram
+ */
+export function getUserLocale(
+    user: { language?: string | null; languageCode?: string | null } | null
+): Locale {
+    return resolveLocale(user?.language || user?.languageCode);
+}
+
+/**
+ * Текст по ключу с подстановкой параметров {name}
+ */
+export function t(
+    locale: Locale,
+    key: MessageKey,
+    params: Record<string, string | number> = {}
+): string {
+    const template = catalogs[locale][key] ?? en[key];
+
+    return template.replace(/\{(\w+)\}/g, (match, name) =>
+        name in params ? String(params[name]) : match
+    );
+}
+
+export function isMessageKey(key: string): key is MessageKey {
+    return key in en;
+}
+
+/**
+ * Все переводы ключа — для сопоставления кнопок и ответов на подсказки,
+ * отправленных на другом языке
+ */
+export function allTranslations(key: MessageKey): string[] {
+    return [...new Set(LOCALES.map((locale) => catalogs[locale][key]))];
+}
+
+/**
+ * Регулярное выражение для текста кнопки меню на любом языке;
+ * эмодзи в начале необязателен
+ */
+export function buttonPattern(key: MessageKey, ...extra: string[]): RegExp {
+    const escape = (text: string) =>
+        text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const labels = allTranslations(key).map(
+        (label) => `(?:\\S+\\s*)?${escape(label.replace(/^\S+\s+/, ""))}`
+    );
+
+    return new RegExp(
+        `^(?:${[...labels, ...extra.map(escape)].join("|")})$`,
+        "i"
+    );
+}
+
+export function formatDate(
+    locale: Locale,
+    date: Date,
+    options: Intl.DateTimeFormatOptions = {}
+): string {
+    return date.toLocaleDateString(DATE_LOCALES[locale], options);
+}
+
+/**
+ * Название тарифа на языке пользователя (nameTranslations), иначе основное
+ */
+export function planName(
+    plan: { name: string; nameTranslations?: unknown },
+    locale: Locale
+): string {
+    const translations = (plan.nameTranslations || {}) as Record<
+        string,
+        string
+    >;
+    return translations[locale] || plan.name;
+}
@@ -0,0 +1,312 @@
+import { Messages } from "./en";
+
+export const ru: Messages = {
+    "command.start": "Оформить подписку на канал",
+    "command.mysubscription": "Статус подписки",
+    "command.check": "Проверить оплату",
+    "command.promo": "Применить промокод",
+    "command.referrals": "Пригласить друзей и получить бонусные дни",
+    "command.balance": "Баланс",
+    "command.history": "История подписки",
+    "command.cancelrenewal": "Отключить автопродление",
+    "command.language": "Сменить язык",
+
+    "menu.price": "📋 Цены",
+    "menu.mySubscription": "👤 Моя подписка",
+    "start.welcome": `❤️‍🔥С помощью этого бота вы получите доступ к моему секретному каналу с горячим контентом с моим парнем.
+❤️‍🔥Быстро и конфиденциально.
+❤️‍🔥Фото, видео и интерактивный контент, который постоянно обновляется.
+❤️‍🔥Доступен весь архив, старые материалы я никогда не удаляю.
+❤️‍🔥Нажмите, чтобы присоединиться👇🏼`,
+
+    "common.back": "← Назад",
+    "common.and": " и ",
+
+    "language.choose": "🌐 Выберите язык:",
+    "language.changed": "✅ Язык изменен на русский.",
+
+    "plans.select": "Выберите тариф:",
+    "plans.selectInChannel": "📢 {channel}\n\nВыберите тариф:",
+    "plans.planButton": "📅 {plan}",
+    "plans.bundleButton": "📦 {plan}",
+    "plans.channelButton": "📢 {channel}",
+    "plans.trialButton": "🎁 Бесплатно на {hours} ч.",
+    "plans.promoButton": "🎟 Ввести промокод",
+    "plans.allChannels": "← Все каналы",
+    "plans.planUnavailable": "Этот тариф больше недоступен.",
+    "plans.channelUnavailable": "Этот канал больше недоступен.",
+
+    "subscription.activeHeader": "✅ **Ваша подписка активна!**",
+    "subscription.graceHeader": "⚠️ **Ваша подписка закончилась, продлите ее!**",
+    "subscription.activeDetails":
+        "📢 **Канал:** {channel}\n📅 **Тариф:** {plan}\n⏰ **Действует до:** {endDate}\n⏳ **Осталось дней:** {days}\n💎 **Статус:** Активна",
+    "subscription.graceDetails":
+        "📢 **Канал:** {channel}\n📅 **Тариф:** {plan}\n⏰ **Закончилась:** {endDate}\n⚠️ **Статус:** Льготный период, продлите до {removalDate}, чтобы сохранить доступ",
+    "subscription.accessGranted": "🔗 **Доступ к каналу:** Открыт",
+    "subscription.freeTrial": "Пробный доступ",
+    "subscription.bonusAccess": "Бонусный доступ",
+    "subscription.none": "❌ **У вас нет активной подписки**",
+    "subscription.lastPayment":
+        "📋 **Последний платеж:**\n{emoji} {status}\n💰 {amount} {currency}",
+    "subscription.choosePlanHint":
+        "Чтобы получить доступ к каналу, выберите и оплатите тариф.",
+    "subscription.renewButton": "🔄 Продлить подписку",
+    "subscription.reissueButton": "🔗 Новая ссылка-приглашение",
+    "subscription.choosePlanButton": "📋 Выбрать тариф",
+    "subscription.autoRenewButton": "🔁 Автопродление {plan}: {state}",
+    "subscription.autoRenewOff": "ВЫКЛ",
+    "subscription.autoRenewStars": "ВКЛ (Stars)",
+    "subscription.autoRenewBalance": "ВКЛ (баланс)",
+    "subscription.loadError":
+        "❌ Не удалось загрузить информацию о подписке. Попробуйте позже.",
+
+    "paymentStatus.PENDING": "Ожидает оплаты",
+    "paymentStatus.PARTIALLY_PAID": "Оплачен частично",
+    "paymentStatus.COMPLETED": "Завершен",
+    "paymentStatus.EXPIRED": "Истек",
+    "paymentStatus.FAILED": "Ошибка",
+    "paymentStatus.REFUNDED": "Возвращен",
+
+    "cryptoStatus.waiting": "Ожидание",
+    "cryptoStatus.confirming": "Подтверждение",
+    "cryptoStatus.confirmed": "Подтвержден, обрабатывается",
+    "cryptoStatus.sending": "Отправка",
+    "cryptoStatus.partially_paid": "Оплачен частично",
+    "cryptoStatus.finished": "Завершен",
+    "cryptoStatus.failed": "Ошибка",
+    "cryptoStatus.refunded": "Возвращен",
+    "cryptoStatus.expired": "Истек",
+
+    "join.approved":
+        "✅ Добро пожаловать! Ваша подписка активна, доступ к каналу открыт.",
+    "join.required":
+        "❌ Для доступа к каналу нужна подписка.\n\nВыберите тариф:",
+    "join.channelButton": "🔗 Вступить в канал",
+    "join.namedChannelButton": "🔗 Вступить в {channel}",
+
+    "invite.reissued":
+        "🔗 Ваша новая ссылка-приглашение ниже. Прежние неиспользованные ссылки больше не работают. Ссылка личная — не передавайте ее другим.",
+    "invite.noSubscription": "У вас нет активной подписки.",
+    "invite.error":
+        "❌ Не удалось создать ссылку-приглашение. Попробуйте позже.",
+    "invite.misused":
+        "⚠️ Вашей ссылкой-приглашением в {channel} воспользовался другой человек, поэтому она больше не работает. Получите новую в /mysubscription. Ссылки личные — не передавайте их другим.",
+
+    "checkout.notFound": "Платеж истек или не найден",
+    "checkout.error": "Ошибка оплаты.",
+    "invoice.title": "Подписка: {plan}",
+    "invoice.giftTitle": "Подарочная подписка: {plan}",
+    "invoice.description": "Доступ к каналу: {plan}",
+    "invoice.subscriptionTitle": "Ежемесячная подписка: {plan}",
+    "invoice.subscriptionDescription":
+        "Доступ к каналу: {plan}, продлевается автоматически каждые 30 дней",
+    "invoice.label": "Подписка",
+    "payment.success": "✅ Оплата прошла успешно! Доступ к каналу открыт.",
+    "payment.cryptoSuccess":
+        "✅ Ваш платеж успешно обработан! Теперь у вас есть доступ к каналу.",
+    "payment.starsRenewed": "🔁 Ваша подписка Stars продлена автоматически.",
+    "payment.processingError":
+        "❌ Ошибка обработки платежа. Пожалуйста, обратитесь к владельцу.",
+
+    "pay.starsButton": "⭐ Оплатить TGStars (без комиссии)",
+    "pay.cryptoButton": "🪙 Оплатить криптовалютой",
+    "pay.starsSubscriptionButton": "🔁 Подписка TGStars с продлением",
+    "pay.balanceButton": "💰 Оплатить с баланса (${balance})",
+    "pay.forMyselfButton": "👤 Купить себе",
+    "pay.giftButton": "🎁 Купить в подарок",
+    "pay.selectMethod":
+        "Выбран тариф: {plan}{channels}{gift}\nЦена: {stars}⭐ / ${usd}{coupon}\nВыберите способ оплаты:",
+    "pay.accessTo": "\n📢 Доступ к: {channels}",
+    "pay.giftHint": "\n🎁 Вы получите подарочную ссылку для друга",
+    "pay.couponApplied": "\n🎟 Применен промокод {code}",
+    "pay.invoiceSent": "Счет отправлен! Проверьте сообщения.",
+    "pay.starsSubscriptionInfo":
+        "🔁 Подписка будет продлеваться автоматически каждые 30 дней. Отключить продление можно в любой момент командой /cancelrenewal.",
+    "pay.subscribeButton": "⭐ Подписаться",
+    "pay.cryptoUnavailable":
+        "Оплата криптовалютой для этого тарифа временно недоступна.",
+    "pay.selectCoin": "Выбран тариф: {plan}\nВыберите монету:",
+    "pay.notEnoughFunds":
+        "Недостаточно средств: тариф стоит ${price}, на балансе ${balance}.",
+    "pay.balanceGiftPaid":
+        "✅ Оплачено с баланса! Подарочная ссылка отправлена.",
+    "pay.balancePaid":
+        "✅ Оплачено с баланса! Подписка активирована.\nОстаток на балансе: ${balance}",
+    "pay.error": "Не удалось создать платеж. Попробуйте позже.",
+
+    "crypto.details": `
+💳 **Оплата в {name}**
+
+💰 **Сумма:** \`{amount}\` {ticker}
+🌐 **Сеть:** {network}
+📍 **Адрес:** \`{address}\`
+🆔 **ID платежа:** \`{paymentId}\`
+
+⏰ **Время на оплату:** 60 минут
+⚠️ **Важно:** отправьте точную сумму на указанный адрес
+⚠️ **Важно:** комиссия за перевод включена в цену
+
+После отправки используйте команду /check или кнопку «Проверить оплату»
+        `,
+    "crypto.detailsSent": "Реквизиты для оплаты отправлены!",
+    "crypto.checkButton": "🔄 Проверить оплату",
+    "crypto.instructionsButton": "ℹ️ Инструкция по оплате",
+    "crypto.instructions": `
+📋 **Как оплатить в {name}:**
+
+1️⃣ Откройте криптокошелек
+2️⃣ Выберите отправку {ticker} в сети {network}
+3️⃣ Скопируйте адрес получателя из сообщения выше
+4️⃣ Введите точную сумму (очень важно!)
+5️⃣ Отправьте транзакцию
+6️⃣ Проверьте оплату командой /check или кнопкой
+
+⚠️ **Важно:**
+• Используйте только сеть {network}
+• Отправляйте точную сумму
+• Комиссия сети оплачивается отдельно
+• Платеж действителен 60 минут
+            `,
+    "crypto.instructionsSent": "Инструкция отправлена!",
+    "crypto.partial": `
+⚠️ **Платеж получен не полностью**
+
+✅ **Получено:** \`{received}\` {ticker}
+❗ **Осталось:** \`{remaining}\` {ticker}
+🌐 **Сеть:** {network}
+📍 **Адрес:** \`{address}\`
+🆔 **ID платежа:** \`{paymentId}\`
+
+Отправьте оставшуюся сумму на адрес выше в течение 60 минут. Подписка активируется, как только будет получена вся сумма.
+            `,
+
+    "check.noPending": "❌ У вас нет ожидающих крипто-платежей.",
+    "check.checking": "🔄 Проверяем статус платежа...",
+    "check.checkingShort": "🔄 Проверяем платеж...",
+    "check.giftConfirmed":
+        "✅ Оплата подтверждена! Подарочная ссылка отправлена.",
+    "check.confirmed": "✅ Оплата подтверждена! Подписка активирована.",
+    "check.failed": "❌ Платеж не прошел. Попробуйте создать новый платеж.",
+    "check.failedRestart":
+        "❌ Платеж не прошел. Создайте новый платеж командой /start.",
+    "check.status":
+        "⏳ Статус платежа: {status}{remaining}\n\nПовторите команду /check через несколько минут.",
+    "check.remaining": "\nОсталось оплатить: {amount} {currency}",
+    "check.statusRetry":
+        "⏳ Статус платежа: {status}\n\nПопробуйте еще раз через несколько минут.",
+    "check.againButton": "🔄 Проверить еще раз",
+    "check.error": "❌ Не удалось проверить платеж. Попробуйте позже.",
+    "check.errorShort": "❌ Ошибка проверки платежа",
+
+    "trial.active": "🎁 Пробный доступ активен до {endDate}. Приятного просмотра!",
+    "trial.unavailable": "Пробный доступ для вашего аккаунта недоступен.",
+    "trial.error": "Не удалось активировать пробный доступ. Попробуйте позже.",
+
+    "promo.prompt": "🎟 Отправьте промокод:",
+    "promo.applied":
+        "🎟 Промокод {code} применен: скидка {discount} на следующую покупку.\n\nВыберите тариф:",
+    "promo.error": "❌ Не удалось применить промокод. Попробуйте позже.",
+    "coupon.notFound": "Промокод не найден.",
+    "coupon.expired": "Срок действия промокода истек.",
+    "coupon.wrongPlan": "Промокод не действует для выбранного тарифа.",
+    "coupon.limitReached": "Лимит использований промокода исчерпан.",
+    "coupon.alreadyUsed": "Вы уже использовали этот промокод.",
+
+    "gift.ready":
+        "🎁 Ваш подарок готов!\n\nТариф: {plan}\nОтправьте эту ссылку тому, кому хотите подарить доступ:\n{link}\n\nСсылку можно использовать один раз, она действует до {date}.",
+    "gift.received":
+        "🎁 Вам подарили подписку: {plan}!\nДоступ активен до {date}.",
+    "gift.redeemed": "🎉 Ваш подарок активирован!",
+    "gift.defaultPlan": "Подписка",
+    "gift.invalid": "Подарочный код недействителен или уже использован.",
+    "gift.expired": "Срок действия подарочного кода истек.",
+    "gift.own":
+        "Нельзя активировать собственный подарок. Отправьте ссылку другу.",
+    "gift.used": "Подарочный код уже использован.",
+
+    "referrals.info":
+        "🤝 Ваша реферальная ссылка:\n{link}\n\n{reward}👥 Приглашено: {invited}\n💳 Оформили подписку: {converted}\n⏳ Получено дней: {days}",
+    "referrals.rewardDaysInfo":
+        "🎁 За каждого друга, оформившего подписку, вы получаете бонусные дни: {days}.\n\n",
+    "referrals.rewardUsdInfo":
+        "💰 За каждого друга, оформившего подписку, вы получаете ${amount} на баланс.\n\n",
+    "referrals.error":
+        "❌ Не удалось загрузить реферальную информацию. Попробуйте позже.",
+    "referrals.rewarded":
+        "🎉 Приглашенный вами друг оформил подписку! Вы получили {rewards}.",
+    "referrals.rewardDays": "бонусные дни доступа: {days}",
+    "referrals.rewardUsd": "${amount} на баланс",
+
+    "balance.info":
+        "💰 Ваш баланс: ${balance}\nИм можно оплатить любой тариф.{history}",
+    "balance.history": "\n\n📒 Последние операции:\n{entries}",
+    "balance.error": "❌ Не удалось загрузить баланс. Попробуйте позже.",
+    "balance.entry.DEPOSIT": "Пополнение",
+    "balance.entry.PURCHASE": "Покупка",
+    "balance.entry.REFUND": "Возврат",
+    "balance.entry.BONUS": "Бонус",
+    "balance.entry.ADJUSTMENT": "Корректировка",
+
+    "history.info": "📜 История вашей подписки:\n\n{entries}",
+    "history.empty": "История подписки пока пуста.",
+    "history.error": "❌ Не удалось загрузить историю. Попробуйте позже.",
+    "history.revoked": " (отменено)",
+    "history.source.PAYMENT": "Оплата",
+    "history.source.TRIAL": "Пробный доступ",
+    "history.source.GIFT": "Подарок",
+    "history.source.REFERRAL": "Бонус за приглашение",
+    "history.source.ADMIN": "Выдано администратором",
+
+    "renewal.cancelled":
+        "✅ Автопродление отключено: {plans}\nДоступ сохранится до конца оплаченного периода.",
+    "renewal.none": "У вас нет автопродлений.",
+    "renewal.cancelError":
+        "❌ Не удалось отключить автопродление. Попробуйте позже.",
+    "renewal.turnedOff": "Автопродление отключено.",
+    "renewal.turnedOn":
+        "Автопродление включено: ${price} спишется с баланса незадолго до окончания подписки. Ваш баланс: ${balance}.",
+    "renewal.toggleError":
+        "Не удалось изменить автопродление. Попробуйте позже.",
+    "renewal.renewedFromBalance":
+        "🔁 Подписка {plan} продлена автоматически с баланса.",
+    "renewal.balanceFailed":
+        "⚠️ Не удалось продлить подписку {plan} с баланса: {reason}. Продлите вручную, чтобы сохранить доступ:",
+    "renewal.reasonFunds": "недостаточно средств",
+    "renewal.reasonPlan": "тариф больше недоступен",
+    "renewal.starsFailed":
+        "⚠️ Подписка Stars {plan} не продлена. Проверьте, достаточно ли у вас звезд, или продлите вручную:",
+
+    "reminder.subscriptionEnds":
+        "⏰ Ваша подписка на {channel} заканчивается через {time}. Продлите сейчас, чтобы сохранить доступ:",
+    "reminder.trialEnds":
+        "⏰ Пробный доступ к {channel} заканчивается через {time}. Продлите сейчас, чтобы сохранить доступ:",
+    "reminder.allPlans": "📋 Все тарифы",
+    "reminder.cryptoButton": "🪙 {plan} · ${price} криптой",
+    "expiry.graceStarted":
+        "⏰ Ваша подписка на {channel} закончилась. Доступ сохранится до {date}. Продлите сейчас, чтобы остаться в канале:",
+    "expiry.trialGraceStarted":
+        "⏰ Пробный доступ к {channel} закончился. Доступ сохранится до {date}. Продлите сейчас, чтобы остаться в канале:",
+    "expiry.trialEnded":
+        "⏰ Пробный доступ закончился. Понравилось? Выберите тариф, чтобы сохранить доступ:",
+    "expiry.subscriptionEnded":
+        "⏰ Ваша подписка истекла. Для продления доступа к каналу оформите новую подписку командой /start",
+
+    "time.days": "{count} дн.",
+    "time.hours": "{count} ч.",
+    "time.minutes": "{count} мин.",
+
+    "admin.granted":
+        "🎁 Администратор открыл вам доступ к {channel} на {days} дн.",
+    "admin.extended": "🎁 Ваша подписка продлена на {days} дн.",
+    "admin.revoked": "⛔️ Администратор закрыл ваш доступ.",
+    "admin.credited":
+        "💰 На ваш баланс зачислено ${amount}.{reason}\nПосмотреть баланс: /balance",
+    "admin.creditReason": "\nПричина: {reason}",
+    "refund.message": "💸 Ваш платеж возвращен. {method}\n{access}",
+    "refund.stars": "Звезды возвращены на ваш счет.",
+    "refund.balance": "Сумма зачислена на ваш баланс, см. /balance.",
+    "refund.manual": "Криптовалюта будет возвращена вам вручную.",
+    "refund.giftCancelled": "Подарочный код аннулирован.",
+    "refund.shortened": "Срок подписки сокращен соответственно.",
+    "refund.revoked": "Ваш доступ к каналу закрыт.",
+};
@@ -1,27 +1,170 @@
 import TelegramBot from "node-telegram-bot-api";
-import { PrismaClient } from "@prisma/client";
-import { PaymentService, CryptoMonitor, NOWPaymentsService } from "./services";
-import { PaymentHandlers } from "./handlers";
+import { PrismaClient, SubscriptionStatus } from "@prisma/client";
+import {
+    PaymentService,
+    CryptoMonitor,
+    NOWPaymentsService,
+    PlanService,
+    CouponService,
+    ReferralService,
+    UserService,
+    SubscriptionService,
+    GiftService,
+    ChannelService,
+    AuditService,
+    BroadcastService,
+    ReminderService,
+    WalletService,
+    AutoRenewService,
+    ReportService,
+    ReconciliationService,
+    PaymentEventService,
+    MembershipService,
+    InviteLinkService,
+    ACCESS_STATUSES,
+} from "./services";
+import { PaymentHandlers, AdminHandlers } from "./handlers";
+import {
+    AdminApi,
+    HealthCheck,
+    HttpServer,
+    NOWPaymentsWebhook,
+    TelegramWebhook,
+    UpdateTracker,
+} from "./server";
+import {
+    getAdminApiKeys,
+    getConfiguredCryptoCurrencies,
+    TELEGRAM_ALLOWED_UPDATES,
+} from "./config";
+import { formatDate, getUserLocale, t } from "./i18n";
 import cron from "node-cron";
 class SubscriptionBot {
     private bot: TelegramBot;
     private prisma: PrismaClient;
     private paymentService: PaymentService;
+    private planService: PlanService;
+    private couponService: CouponService;
+    private referralService: ReferralService;
+    private userService: UserService;
+    private subscriptionService: SubscriptionService;
+    private giftService: GiftService;
+    private channelService: ChannelService;
+    private auditService: AuditService;
+    private broadcastService: BroadcastService;
+    private reminderService: ReminderService;
+    private walletService: WalletService;
+    private paymentEventService: PaymentEventService;
+    private reportService: ReportService;
+    private membershipService: MembershipService;
+    private inviteLinkService: InviteLinkService;
+    private autoRenewService: AutoRenewService;
     private paymentHandlers: PaymentHandlers;
+    private adminHandlers: AdminHandlers;
     private cryptoMonitor: CryptoMonitor;
+    private reconciliationService?: ReconciliationService;
+    private httpServer?: HttpServer;
+    private telegramWebhook?: TelegramWebhook;
+    private updateTracker: UpdateTracker;
+    private ipnEnabled = false;
+
+    // Режим вебхука включается адресом TELEGRAM_WEBHOOK_URL
+    private webhookMode = !!process.env.TELEGRAM_WEBHOOK_URL;
 
     constructor() {
         this.prisma = new PrismaClient();
+        // В режиме вебхука обновления приходят через HTTP-сервер
         this.bot = new TelegramBot(process.env.TELEGRAM_BOT_TOKEN!, {
-            polling: true,
+            polling: this.webhookMode
+                ? false
+                : { params: { allowed_updates: TELEGRAM_ALLOWED_UPDATES } },
         });
-
-        this.paymentService = new PaymentService(this.prisma, this.bot);
+        // До регистрации обработчиков: при остановке их дожидаемся
+        this.updateTracker = new UpdateTracker(this.bot);
+
+        this.planService = new PlanService(this.prisma);
+        this.channelService = new ChannelService(this.prisma);
+        this.auditService = new AuditService(this.prisma);
+        this.broadcastService = new BroadcastService(this.prisma, this.bot);
+        this.reminderService = new ReminderService(
+            this.prisma,
+            this.bot,
+            this.planService
+        );
+        this.walletService = new WalletService(this.prisma);
+        this.paymentEventService = new PaymentEventService(this.prisma);
+        this.reportService = new ReportService(this.prisma);
+        this.couponService = new CouponService(this.prisma);
+        this.referralService = new ReferralService(this.prisma);
+        this.userService = new UserService(this.prisma, this.referralService);
+        this.inviteLinkService = new InviteLinkService(this.prisma, this.bot);
+        this.subscriptionService = new SubscriptionService(
+            this.prisma,
+            this.bot,
+            this.channelService,
+            this.inviteLinkService
+        );
+        this.giftService = new GiftService(
+            this.prisma,
+            this.subscriptionService
+        );
+        this.membershipService = new MembershipService(
+            this.prisma,
+            this.bot,
+            this.channelService,
+            this.subscriptionService,
+            this.inviteLinkService
+        );
+        this.paymentService = new PaymentService(
+            this.prisma,
+            this.bot,
+            this.planService,
+            this.couponService,
+            this.referralService,
+            this.subscriptionService,
+            this.giftService,
+            this.walletService,
+            this.paymentEventService
+        );
+        this.autoRenewService = new AutoRenewService(
+            this.prisma,
+            this.bot,
+            this.paymentService,
+            this.subscriptionService
+        );
+        this.paymentService.setAutoRenewService(this.autoRenewService);
 
         this.paymentHandlers = new PaymentHandlers(
             this.bot,
             this.paymentService,
-            this.prisma
+            this.prisma,
+            this.planService,
+            this.couponService,
+            this.userService,
+            this.referralService,
+            this.subscriptionService,
+            this.giftService,
+            this.channelService,
+            this.walletService,
+            this.autoRenewService,
+            this.inviteLinkService
+        );
+
+        this.adminHandlers = new AdminHandlers(
+            this.bot,
+            this.paymentService,
+            this.prisma,
+            this.planService,
+            this.couponService,
+            this.channelService,
+            this.subscriptionService,
+            this.userService,
+            this.auditService,
+            this.paymentHandlers,
+            this.broadcastService,
+            this.walletService,
+            this.reportService,
+            this.membershipService
         );
 
         // Устанавливаем связь между сервисами
@@ -32,14 +175,94 @@ class SubscriptionBot {
             this.paymentService
         );
 
+        // Список платежей NOWPayments доступен только с логином аккаунта
+        if (process.env.NOWPAYMENTS_EMAIL && process.env.NOWPAYMENTS_PASSWORD) {
+            this.reconciliationService = new ReconciliationService(
+                this.prisma,
+                this.bot,
+                this.paymentService,
+                new NOWPaymentsService(process.env.NOWPAYMENTS_API_KEY!, {
+                    email: process.env.NOWPAYMENTS_EMAIL,
+                    password: process.env.NOWPAYMENTS_PASSWORD,
+                }),
+                this.paymentEventService
+            );
+        } else {
+            console.warn(
+                "⚠️ NOWPAYMENTS_EMAIL/NOWPAYMENTS_PASSWORD are not set, payment reconciliation is disabled"
+            );
+        }
+
+        this.setupHttpServer();
         this.setupScheduledTasks();
     }
 
+    private setupHttpServer() {
+        const ipnSecret = process.env.NOWPAYMENTS_IPN_SECRET;
+
+        if (!ipnSecret) {
+            console.warn(
+                "⚠️ NOWPAYMENTS_IPN_SECRET is not set, crypto payments will be detected by polling only"
+            );
+        }
+
+        const apiKeys = getAdminApiKeys();
+
+        // HTTP-сервер нужен для вебхука Telegram, IPN от NOWPayments,
+        // REST API администраторов или, если задан HTTP_PORT, только для
+        // проверки состояния
+        if (
+            !this.webhookMode &&
+            !ipnSecret &&
+            apiKeys.size === 0 &&
+            !process.env.HTTP_PORT
+        ) {
+            return;
+        }
+
+        this.httpServer = new HttpServer(
+            parseInt(process.env.HTTP_PORT || "3000", 10)
+        );
+        new HealthCheck(
+            this.httpServer,
+            this.prisma,
+            this.webhookMode ? "webhook" : "polling"
+        );
+
+        if (ipnSecret) {
+            new NOWPaymentsWebhook(
+                this.httpServer,
+                this.paymentService,
+                ipnSecret
+            );
+            this.ipnEnabled = true;
+        }
+
+        if (apiKeys.size > 0) {
+            new AdminApi(
+                this.httpServer,
+                this.prisma,
+                this.paymentService,
+                this.userService,
+                this.channelService,
+                this.auditService,
+                apiKeys
+            );
+        }
+
+        if (this.webhookMode) {
+            this.telegramWebhook = new TelegramWebhook(
+                this.httpServer,
+                this.bot,
+                process.env.TELEGRAM_WEBHOOK_SECRET!
+            );
+        }
+    }
+
     private setupScheduledTasks() {
         // Очистка просроченных платежей каждые 5 минут
         cron.schedule("*/5 * * * *", async () => {
             try {
-                await this.paymentService.cleanupExpiredPayments();
                 await this.cryptoMonitor.cleanupExpiredPayments();
                 console.log("✅ Expired payments cleaned up");
             } catch (error) {
@@ -47,8 +270,12 @@ class SubscriptionBot {
             }
         });
 
-        // Мониторинг крипто-платежей каждые 2 минуты
-        cron.schedule("*/2 * * * *", async () => {
+        // Мониторинг крипто-платежей: при включенных IPN опрос остается
+        // редким резервным механизмом на случай потерянных уведомлений
+        const cryptoPollSchedule =
+            process.env.CRYPTO_POLL_CRON ||
+            (this.ipnEnabled ? "*/15 * * * *" : "*/2 * * * *");
+        cron.schedule(cryptoPollSchedule, async () => {
             try {
                 await this.cryptoMonitor.checkPendingPayments();
             } catch (error) {
@@ -56,6 +283,24 @@ class SubscriptionBot {
             }
         });
 
+        // Сверка с NOWPayments: поздние оплаты и расхождения (раз в час)
+        const reconciliationService = this.reconciliationService;
+        if (reconciliationService) {
+            cron.schedule(
+                process.env.RECONCILE_CRON || "20 * * * *",
+                async () => {
+                    try {
+                        await reconciliationService.reconcile();
+                    } catch (error) {
+                        console.error(
+                            "❌ Error reconciling NOWPayments payments:",
+                            error
+                        );
+                    }
+                }
+            );
+        }
+
         // Проверка истекших подписок каждый час
         cron.schedule("0 * * * *", async () => {
             try {
@@ -68,6 +313,36 @@ class SubscriptionBot {
             }
         });
 
+        // Участники каналов без действующей подписки (каждые 6 часов)
+        cron.schedule(
+            process.env.MEMBER_AUDIT_CRON || "40 */6 * * *",
+            async () => {
+                try {
+                    await this.membershipService.runScheduledAudit();
+                } catch (error) {
+                    console.error("❌ Error auditing channel members:", error);
+                }
+            }
+        );
+
+        // Автопродление подписок каждые 10 минут
+        cron.schedule("*/10 * * * *", async () => {
+            try {
+                await this.autoRenewService.processDueRenewals();
+            } catch (error) {
+                console.error("❌ Error processing auto-renewals:", error);
+            }
+        });
+
+        // Напоминания о скором окончании подписки каждые 10 минут
+        cron.schedule("*/10 * * * *", async () => {
+            try {
+                await this.reminderService.sendDueReminders();
+            } catch (error) {
+                console.error("❌ Error sending renewal reminders:", error);
+            }
+        });
+
         // Статистика платежей каждые 6 часов
         cron.schedule("0 */6 * * *", async () => {
             try {
@@ -79,43 +354,68 @@ class SubscriptionBot {
     }
 
     private async removeExpiredSubscriptions() {
+        const now = new Date();
+        const gracePeriodMs =
+            SubscriptionService.getGracePeriodHours() * 60 * 60 * 1000;
+
+        if (gracePeriodMs > 0) {
+            await this.startGracePeriods(now, gracePeriodMs);
+        }
+
+        // Срок и льготный период вышли — удаляем из канала
         const expiredSubscriptions = await this.prisma.subscription.findMany({
             where: {
-                endDate: { lt: new Date() },
-                isActive: true,
+                endDate: { lt: new Date(now.getTime() - gracePeriodMs) },
+                status: { in: ACCESS_STATUSES },
             },
-            include: { user: true },
+            include: { user: true, channel: true },
         });
 
         let processedCount = 0;
 
         for (const subscription of expiredSubscriptions) {
             try {
-                // Деактивируем подписку
-                await this.prisma.subscription.update({
-                    where: { id: subscription.id },
-                    data: { isActive: false },
+                // Условное обновление: подписку могли продлить параллельно
+                const expired = await this.prisma.subscription.updateMany({
+                    where: {
+                        id: subscription.id,
+                        status: { in: ACCESS_STATUSES },
+                        endDate: subscription.endDate,
+                    },
+                    data: { status: SubscriptionStatus.EXPIRED },
                 });
 
-                // Баним пользователя в канале
-                try {
-                    await this.bot.banChatMember(
-                        process.env.CHANNEL_ID!,
-                        Number(subscription.user.telegramId)
-                    );
-                } catch (banError) {
-                    console.log(
-                        `Could not ban user ${subscription.user.telegramId}:`,
-                        banError.message
-                    );
-                }
+                if (expired.count === 0) continue;
+
+                // Удаляем из канала без постоянного бана
+                await this.subscriptionService.removeFromChannel(
+                    subscription.channelId,
+                    Number(subscription.user.telegramId)
+                );
 
                 // Уведомляем пользователя об истечении подписки
+                const locale = getUserLocale(subscription.user);
                 try {
-                    await this.bot.sendMessage(
-                        Number(subscription.user.telegramId),
-                        "⏰ Ваша подписка истекла. Для продления доступа к каналу оформите новую подписку командой /start"
-                    );
+                    if (subscription.isTrial) {
+                        // После пробного доступа сразу предлагаем платные планы
+                        await this.bot.sendMessage(
+                            Number(subscription.user.telegramId),
+                            t(locale, "expiry.trialEnded"),
+                            {
+                                reply_markup:
+                                    await this.paymentHandlers.buildPlanKeyboard(
+                                        locale,
+                                        subscription.userId,
+                                        subscription.channel.id
+                                    ),
+                            }
+                        );
+                    } else {
+                        await this.bot.sendMessage(
+                            Number(subscription.user.telegramId),
+                            t(locale, "expiry.subscriptionEnded")
+                        );
+                    }
                 } catch (msgError) {
                     console.log(
                         `Could not send expiry message to user ${subscription.user.telegramId}:`,
@@ -125,7 +425,7 @@ class SubscriptionBot {
 
                 processedCount++;
                 console.log(
-                    `🔄 Deactivated expired subscription for user ${subscription.user.telegramId}`
+                    `🔄 Expired subscription for user ${subscription.user.telegramId} in ${subscription.channel.title}`
                 );
 
                 // Небольшая пауза между операциями
@@ -143,6 +443,79 @@ class SubscriptionBot {
         }
     }
 
+    // Перевод закончившихся подписок в льготный период с предложением продлить
+    private async startGracePeriods(now: Date, gracePeriodMs: number) {
+        const endedSubscriptions = await this.prisma.subscription.findMany({
+            where: {
+                status: SubscriptionStatus.ACTIVE,
+                endDate: {
+                    lt: now,
+                    gte: new Date(now.getTime() - gracePeriodMs),
+                },
+            },
+            include: { user: true, channel: true },
+        });
+
+        for (const subscription of endedSubscriptions) {
+            try {
+                const updated = await this.prisma.subscription.updateMany({
+                    where: {
+                        id: subscription.id,
+                        status: SubscriptionStatus.ACTIVE,
+                        endDate: subscription.endDate,
+                    },
+                    data: { status: SubscriptionStatus.GRACE },
+                });
+
+                if (updated.count === 0) continue;
+
+                const removalDate = new Date(
+                    subscription.endDate.getTime() + gracePeriodMs
+                );
+                const locale = getUserLocale(subscription.user);
+
+                await this.bot.sendMessage(
+                    Number(subscription.user.telegramId),
+                    t(
+                        locale,
+                        subscription.isTrial
+                            ? "expiry.trialGraceStarted"
+                            : "expiry.graceStarted",
+                        {
+                            channel: subscription.channel.title,
+                            date: formatDate(locale, removalDate, {
+                                month: "long",
+                                day: "numeric",
+                                hour: "2-digit",
+                                minute: "2-digit",
+                            }),
+                        }
+                    ),
+                    {
+                        reply_markup:
+                            await this.paymentHandlers.buildPlanKeyboard(
+                                locale,
+                                subscription.userId,
+                                subscription.channel.id
+                            ),
+                    }
+                );
+
+                console.log(
+                    `⏳ Grace period started for user ${subscription.user.telegramId} in ${subscription.channel.title}`
+                );
+            } catch (error) {
+                console.log(
+                    `Could not process grace period for user ${subscription.user.telegramId}:`,
+                    error.message
+                );
+            }
+
+            // Небольшая пауза между операциями
+            await new Promise((resolve) => setTimeout(resolve, 100));
+        }
+    }
+
     async start() {
         try {
             // Проверяем подключение к БД
@@ -156,9 +529,26 @@ class SubscriptionBot {
             // Проверяем переменные окружения
             this.checkEnvironmentVariables();
 
+            // Регистрируем канал из CHANNEL_ID (установки с одним каналом)
+            await this.setupDefaultChannel();
+
             // Проверяем NOWPayments API
             await this.checkNOWPaymentsAPI();
 
+            // Продолжаем рассылки, прерванные перезапуском
+            await this.broadcastService.resumePending();
+
+            // Запускаем HTTP-сервер и регистрируем вебхук, когда
+            // сервер уже готов принимать обновления
+            if (this.httpServer) {
+                await this.httpServer.start();
+            }
+            if (this.telegramWebhook) {
+                await this.telegramWebhook.register(
+                    process.env.TELEGRAM_WEBHOOK_URL!
+                );
+            }
+
             console.log("🚀 Subscription bot started successfully!");
 
             // Выводим статистику при старте
@@ -175,6 +565,37 @@ class SubscriptionBot {
         }
     }
 
+    private async setupDefaultChannel() {
+        const chatId = process.env.CHANNEL_ID;
+
+        if (!chatId) {
+            const channels = await this.channelService.getActiveChannels();
+            if (channels.length === 0) {
+                console.warn(
+                    "⚠️ No channels configured, add one with /addchannel or set CHANNEL_ID"
+                );
+            }
+            return;
+        }
+
+        let title = "Channel";
+        try {
+            const chat = await this.bot.getChat(chatId);
+            title = chat.title || title;
+        } catch (error) {
+            console.warn(
+                `⚠️ Could not load channel ${chatId}:`,
+                error.message
+            );
+        }
+
+        const channel = await this.channelService.ensureDefaultChannel(
+            chatId,
+            title
+        );
+        console.log(`✅ Channel registered: ${channel.title}`);
+    }
+
     private async checkNOWPaymentsAPI() {
         try {
             const nowPayments = new NOWPaymentsService(
@@ -189,13 +610,19 @@ class SubscriptionBot {
                 try {
                     const currencies =
                         await nowPayments.getAvailableCurrencies();
-                    const hasUSDTTRC20 = currencies.includes("usdttrc20");
+                    const available = currencies.map((c) => c.toLowerCase());
+                    const configured = getConfiguredCryptoCurrencies();
+                    const missing = configured.filter(
+                        (code) => !available.includes(code)
+                    );
 
-                    if (hasUSDTTRC20) {
-                        console.log("✅ USDT TRC20 is supported");
+                    if (missing.length === 0) {
+                        console.log(
+                            `✅ Crypto currencies supported: ${configured.join(", ")}`
+                        );
                     } else {
                         console.warn(
-                            "⚠️ USDT TRC20 may not be available, check your NOWPayments account"
+                            `⚠️ ${missing.join(", ")} may not be available, check your NOWPayments account`
                         );
                         console.log(
                             "Available currencies:",
@@ -222,10 +649,13 @@ class SubscriptionBot {
         const requiredVars = [
             "TELEGRAM_BOT_TOKEN",
             "DATABASE_URL",
-            "CHANNEL_ID",
             "NOWPAYMENTS_API_KEY",
         ];
 
+        if (this.webhookMode) {
+            requiredVars.push("TELEGRAM_WEBHOOK_SECRET");
+        }
+
         const missingVars = requiredVars.filter(
             (varName) => !process.env[varName]
         );
@@ -245,11 +675,27 @@ class SubscriptionBot {
         console.log("🛑 Shutting down bot...");
 
         try {
+            this.broadcastService.stop();
+
+            // Сначала перестаем получать обновления, затем дожидаемся
+            // начатых запросов и обработчиков и только потом отключаем БД.
+            // Принятые обновления Telegram не повторит, поэтому их
+            // обработка завершается до отключения. Вебхук не удаляется:
+            // еще не доставленные обновления придут после перезапуска
+            if (!this.webhookMode) {
+                await this.bot.stopPolling();
+                console.log("✅ Bot polling stopped");
+            }
+
+            if (this.httpServer) {
+                await this.httpServer.stop();
+                console.log("✅ HTTP server stopped");
+            }
+
+            await this.updateTracker.drain();
+
             await this.prisma.$disconnect();
             console.log("✅ Database disconnected");
-
-            await this.bot.stopPolling();
-            console.log("✅ Bot polling stopped");
         } catch (error) {
             console.error("❌ Error during shutdown:", error);
         }
@@ -0,0 +1,544 @@
+import { timingSafeEqual } from "crypto";
+import { ServerResponse } from "http";
+import {
+    PaymentEventSource,
+    PaymentStatus,
+    PaymentType,
+    Prisma,
+    PrismaClient,
+    SubscriptionStatus,
+} from "@prisma/client";
+import { HttpServer, HttpRequest } from "./HttpServer";
+import { PaymentService } from "../services/PaymentService";
+import { UserService } from "../services/UserService";
+import { ChannelService } from "../services/ChannelService";
+import { AuditService } from "../services/AuditService";
+
+export const ADMIN_API_PATH = "/api";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+type ApiHandler = (
+    req: HttpRequest,
+    res: ServerResponse,
+    adminId: number
+) => Promise<void>;
+
+export class AdminApi {
+    constructor(
+        private server: HttpServer,
+        private prisma: PrismaClient,
+        private paymentService: PaymentService,
+        private userService: UserService,
+        private channelService: ChannelService,
+        private auditService: AuditService,
+        // Ключ API -> Telegram ID администратора
+        private apiKeys: Map<string, number>
+    ) {
+        this.setupRoutes();
+    }
+
+    private setupRoutes() {
+        const api = ADMIN_API_PATH;
+
+        // Пользователи
+        this.server.get(
+            `${api}/users`,
+            this.authorized(async (req, res) => {
+                const search = req.query.get("search");
+                const where: Prisma.UserWhereInput = search
+                    ? {
+                          OR: [
+                              {
+                                  username: {
+                                      contains: search.replace(/^@/, ""),
+                                      mode: "insensitive",
+                                  },
+                              },
+                              {
+                                  firstName: {
+                                      contains: search,
+                                      mode: "insensitive",
+                                  },
+                              },
+                              ...(/^\d+$/.test(search)
+                                  ? [{ telegramId: BigInt(search) }]
+                                  : []),
+                          ],
+                      }
+                    : {};
+
+                await this.sendPage(req, res, (take, skip) =>
+                    Promise.all([
+                        this.prisma.user.findMany({
+                            where,
+                            orderBy: { createdAt: "desc" },
+                            take,
+                            skip,
+                        }),
+                        this.prisma.user.count({ where }),
+                    ])
+                );
+            })
+        );
+
+        this.server.get(
+            `${api}/users/:id`,
+            this.authorized(async (req, res) => {
+                const found = await this.userService.findUser(req.params.id);
+                const user =
+                    found &&
+                    (await this.prisma.user.findUnique({
+                        where: { id: found.id },
+                        include: {
+                            subscriptions: {
+                                include: { plan: true },
+                                orderBy: { endDate: "desc" },
+                            },
+                            payments: {
+                                include: { plan: true },
+                                orderBy: { createdAt: "desc" },
+                            },
+                            balanceEntries: { orderBy: { createdAt: "desc" } },
+                            autoRenewals: true,
+                            inviteLinks: { orderBy: { createdAt: "desc" } },
+                            coupon: true,
+                        },
+                    }));
+
+                if (!user) {
+                    HttpServer.sendJson(res, 404, { error: "User not found" });
+                    return;
+                }
+
+                HttpServer.sendJson(res, 200, user);
+            })
+        );
+
+        // Платежи
+        this.server.get(
+            `${api}/payments`,
+            this.authorized(async (req, res) => {
+                const status = req.query.get("status");
+                const type = req.query.get("type");
+
+                if (status && !(status in PaymentStatus)) {
+                    HttpServer.sendJson(res, 400, { error: "Invalid status" });
+                    return;
+                }
+                if (type && !(type in PaymentType)) {
+                    HttpServer.sendJson(res, 400, { error: "Invalid type" });
+                    return;
+                }
+
+                const createdAt = this.parseDateRange(req);
+                if (createdAt === null) {
+                    HttpServer.sendJson(res, 400, { error: "Invalid date" });
+                    return;
+                }
+
+                const where: Prisma.PaymentWhereInput = {
+                    status: (status as PaymentStatus) || undefined,
+                    paymentType: (type as PaymentType) || undefined,
+                    userId: req.query.get("userId") || undefined,
+                    planId: req.query.get("planId") || undefined,
+                    createdAt,
+                };
+
+                await this.sendPage(req, res, (take, skip) =>
+                    Promise.all([
+                        this.prisma.payment.findMany({
+                            where,
+                            orderBy: { createdAt: "desc" },
+                            take,
+                            skip,
+                        }),
+                        this.prisma.payment.count({ where }),
+                    ])
+                );
+            })
+        );
+
+        this.server.get(
+            `${api}/payments/:id`,
+            this.authorized(async (req, res) => {
+                const payment = await this.prisma.payment.findFirst({
+                    where: {
+                        OR: [
+                            { id: req.params.id },
+                            { cryptoTxHash: req.params.id },
+                        ],
+                    },
+                    include: {
+                        user: true,
+                        plan: true,
+                        coupon: true,
+                        subscriptions: true,
+                        topUps: true,
+                        refund: true,
+                        events: { orderBy: { createdAt: "asc" } },
+                    },
+                });
+
+                if (!payment) {
+                    HttpServer.sendJson(res, 404, {
+                        error: "Payment not found",
+                    });
+                    return;
+                }
+
+                HttpServer.sendJson(res, 200, payment);
+            })
+        );
+
+        this.server.post(
+            `${api}/payments/:id/complete`,
+            this.authorized(async (req, res, adminId) => {
+                const payment =
+                    await this.paymentService.completePaymentManually(
+                        req.params.id,
+                        PaymentEventSource.API
+                    );
+
+                await this.audit(adminId, "complete", {
+                    targetUserId: payment.userId,
+                    paymentId: payment.id,
+                });
+
+                HttpServer.sendJson(res, 200, {
+                    ok: true,
+                    payment: await this.prisma.payment.findUnique({
+                        where: { id: payment.id },
+                        include: { subscriptions: true },
+                    }),
+                });
+            })
+        );
+
+        // Подписки
+        this.server.get(
+            `${api}/subscriptions`,
+            this.authorized(async (req, res) => {
+                const status = req.query.get("status");
+
+                if (status && !(status in SubscriptionStatus)) {
+                    HttpServer.sendJson(res, 400, { error: "Invalid status" });
+                    return;
+                }
+
+                const where: Prisma.SubscriptionWhereInput = {
+                    status: (status as SubscriptionStatus) || undefined,
+                    userId: req.query.get("userId") || undefined,
+                    channelId: req.query.get("channelId") || undefined,
+                    planId: req.query.get("planId") || undefined,
+                };
+
+                await this.sendPage(req, res, (take, skip) =>
+                    Promise.all([
+                        this.prisma.subscription.findMany({
+                            where,
+                            orderBy: { endDate: "desc" },
+                            take,
+                            skip,
+                        }),
+                        this.prisma.subscription.count({ where }),
+                    ])
+                );
+            })
+        );
+
+        this.server.get(
+            `${api}/subscriptions/:id`,
+            this.authorized(async (req, res) => {
+                const subscription = await this.prisma.subscription.findUnique(
+                    {
+                        where: { id: req.params.id },
+                        include: {
+                            user: true,
+                            channel: true,
+                            plan: true,
+                            payment: true,
+                            periods: { orderBy: { startDate: "asc" } },
+                        },
+                    }
+                );
+
+                if (!subscription) {
+                    HttpServer.sendJson(res, 404, {
+                        error: "Subscription not found",
+                    });
+                    return;
+                }
+
+                HttpServer.sendJson(res, 200, subscription);
+            })
+        );
+
+        this.server.post(
+            `${api}/subscriptions/grant`,
+            this.authorized(async (req, res, adminId) => {
+                const { userId, channelId, days } = req.body || {};
+                const user = await this.resolveUser(res, userId);
+                if (!user) return;
+
+                if (!this.isValidDays(days)) {
+                    HttpServer.sendJson(res, 400, { error: "Invalid days" });
+                    return;
+                }
+
+                const channel = await this.resolveChannel(res, channelId);
+                if (!channel) {
+                    if (!res.headersSent) {
+                        HttpServer.sendJson(res, 400, {
+                            error: "channelId is required",
+                        });
+                    }
+                    return;
+                }
+
+                const subscriptions = await this.paymentService.grantAccess(
+                    user.id,
+                    channel,
+                    days
+                );
+
+                await this.audit(adminId, "grant", {
+                    targetUserId: user.id,
+                    details: { days, channelId: channel.id },
+                });
+
+                HttpServer.sendJson(res, 200, { ok: true, subscriptions });
+            })
+        );
+
+        this.server.post(
+            `${api}/subscriptions/extend`,
+            this.authorized(async (req, res, adminId) => {
+                const { userId, channelId, days } = req.body || {};
+                const user = await this.resolveUser(res, userId);
+                if (!user) return;
+
+                if (!this.isValidDays(days)) {
+                    HttpServer.sendJson(res, 400, { error: "Invalid days" });
+                    return;
+                }
+
+                const channel = await this.resolveChannel(res, channelId);
+                if (res.headersSent) return;
+
+                const subscriptions = await this.paymentService.extendAccess(
+                    user.id,
+                    days,
+                    channel || undefined
+                );
+
+                if (subscriptions.length === 0) {
+                    HttpServer.sendJson(res, 409, {
+                        error: "User has no active subscription",
+                    });
+                    return;
+                }
+
+                await this.audit(adminId, "extend", {
+                    targetUserId: user.id,
+                    details: { days, channelId: channel?.id ?? null },
+                });
+
+                HttpServer.sendJson(res, 200, { ok: true, subscriptions });
+            })
+        );
+
+        this.server.post(
+            `${api}/subscriptions/revoke`,
+            this.authorized(async (req, res, adminId) => {
+                const { userId, channelId } = req.body || {};
+                const user = await this.resolveUser(res, userId);
+                if (!user) return;
+
+                const channel = await this.resolveChannel(res, channelId);
+                if (res.headersSent) return;
+
+                const subscriptions = await this.paymentService.revokeAccess(
+                    user.id,
+                    channel || undefined
+                );
+
+                if (subscriptions.length === 0) {
+                    HttpServer.sendJson(res, 409, {
+                        error: "User has no active subscription",
+                    });
+                    return;
+                }
+
+                await this.audit(adminId, "revoke", {
+                    targetUserId: user.id,
+                    details: {
+                        channelId: channel?.id ?? null,
+                        subscriptionIds: subscriptions.map((s) => s.id),
+                    },
+                });
+
+                HttpServer.sendJson(res, 200, {
+                    ok: true,
+                    revoked: subscriptions.length,
+                });
+            })
+        );
+    }
+
+    /**
+     * Проверка ключа (Authorization: Bearer или X-API-Key); ошибки
+     * сервисов возвращаются клиенту как 400
+     */
+    private authorized(handler: ApiHandler) {
+        return async (req: HttpRequest, res: ServerResponse) => {
+            const header = req.headers.authorization;
+            const token =
+                (header?.startsWith("Bearer ") && header.slice(7).trim()) ||
+                (req.headers["x-api-key"] as string);
+            const adminId = token ? this.findAdmin(token) : undefined;
+
+            if (adminId === undefined) {
+                HttpServer.sendJson(res, 401, { error: "Unauthorized" });
+                return;
+            }
+
+            try {
+                await handler(req, res, adminId);
+            } catch (error) {
+                console.error(
+                    `❌ Admin API error on ${req.method} ${req.path}:`,
+                    error
+                );
+                if (!res.headersSent) {
+                    HttpServer.sendJson(res, 400, { error: error.message });
+                }
+            }
+        };
+    }
+
+    private findAdmin(token: string): number | undefined {
+        const received = Buffer.from(token);
+
+        for (const [key, adminId] of this.apiKeys) {
+            const expected = Buffer.from(key);
+            if (
+                expected.length === received.length &&
+                timingSafeEqual(expected, received)
+            ) {
+                return adminId;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Постраничный ответ: limit (по умолчанию 50, не больше 200) и offset
+     */
+    private async sendPage(
+        req: HttpRequest,
+        res: ServerResponse,
+        load: (take: number, skip: number) => Promise<[unknown[], number]>
+    ) {
+        const limit = Math.min(
+            Math.max(
+                parseInt(req.query.get("limit") || "", 10) ||
+                    DEFAULT_PAGE_SIZE,
+                1
+            ),
+            MAX_PAGE_SIZE
+        );
+        const offset = Math.max(
+            parseInt(req.query.get("offset") || "", 10) || 0,
+            0
+        );
+
+        const [items, total] = await load(limit, offset);
+
+        HttpServer.sendJson(res, 200, { items, total, limit, offset });
+    }
+
+    /**
+     * Фильтр по дате создания (from/to в ISO); null — некорректная дата
+     */
+    private parseDateRange(req: HttpRequest): Prisma.DateTimeFilter | null {
+        const range: Prisma.DateTimeFilter = {};
+
+        for (const [param, field] of [
+            ["from", "gte"],
+            ["to", "lt"],
+        ] as const) {
+            const value = req.query.get(param);
+            if (!value) continue;
+
+            const date = new Date(value);
+            if (isNaN(date.getTime())) {
+                return null;
+            }
+            range[field] = date;
+        }
+
+        return range;
+    }
+
+    private isValidDays(days: unknown): days is number {
+        return Number.isInteger(days) && (days as number) > 0;
+    }
+
+    private async resolveUser(res: ServerResponse, userId: unknown) {
+        const user =
+            typeof userId === "string" || typeof userId === "number"
+                ? await this.userService.findUser(String(userId))
+                : null;
+
+        if (!user) {
+            HttpServer.sendJson(res, 404, { error: "User not found" });
+        }
+
+        return user;
+    }
+
+    /**
+     * Канал по id; без channelId — null (все каналы), при неизвестном
+     * id отправляется 404
+     */
+    private async resolveChannel(res: ServerResponse, channelId: unknown) {
+        if (channelId === undefined || channelId === null) {
+            return null;
+        }
+
+        const channel =
+            typeof channelId === "string"
+                ? await this.channelService.getChannel(channelId)
+                : null;
+
+        if (!channel) {
+            HttpServer.sendJson(res, 404, { error: "Channel not found" });
+        }
+
+        return channel;
+    }
+
+    private async audit(
+        adminTelegramId: number,
+        action: string,
+        entry: {
+            targetUserId?: string;
+            paymentId?: string;
+            details?: Prisma.JsonObject;
+        }
+    ) {
+        try {
+            await this.auditService.record({
+                adminTelegramId,
+                action,
+                ...entry,
+                details: { ...entry.details, source: "api" },
+            });
+        } catch (error) {
+            console.error(`Error writing audit record for ${action}:`, error);
+        }
+    }
+}
@@ -0,0 +1,41 @@
+import { PrismaClient } from "@prisma/client";
+import { HttpServer } from "./HttpServer";
+
+export const HEALTH_PATH = "/health";
+
+export class HealthCheck {
+    private startedAt = Date.now();
+
+    constructor(
+        private server: HttpServer,
+        private prisma: PrismaClient,
+        private mode: "webhook" | "polling"
+    ) {
+        this.setupRoutes();
+    }
+
+    private setupRoutes() {
+        // Для балансировщика: 503, если бот завершает работу или БД недоступна
+        this.server.get(HEALTH_PATH, async (req, res) => {
+            if (this.server.isStopping()) {
+                HttpServer.sendJson(res, 503, { status: "stopping" });
+                return;
+            }
+
+            let database = "ok";
+            try {
+                await this.prisma.$queryRaw`SELECT 1`;
+            } catch (error) {
+                console.error("❌ Health check database error:", error.message);
+                database = "error";
+            }
+
+            HttpServer.sendJson(res, database === "ok" ? 200 : 503, {
+                status: database === "ok" ? "ok" : "error",
+                mode: this.mode,
+                database,
+                uptime: Math.floor((Date.now() - this.startedAt) / 1000),
+            });
+        });
+    }
+}
@@ -0,0 +1,250 @@
+import http, { IncomingMessage, ServerResponse } from "http";
+
+export interface HttpRequest {
+    method: string;
+    path: string;
+    // Параметры пути из шаблона маршрута (/api/users/:id)
+    params: Record<string, string>;
+    query: URLSearchParams;
+    headers: http.IncomingHttpHeaders;
+    rawBody: string;
+    body: any;
+}
+
+export type RouteHandler = (
+    req: HttpRequest,
+    res: ServerResponse
+) => Promise<void> | void;
+
+interface Route {
+    method: string;
+    path: string;
+    handler: RouteHandler;
+}
+
+/**
+ * Сопоставление пути с шаблоном маршрута; сегменты вида :name
+ * попадают в параметры
+ */
+function matchPath(
+    pattern: string,
+    path: string
+): Record<string, string> | null {
+    const patternParts = pattern.split("/");
+    const pathParts = path.split("/");
+
+    if (patternParts.length !== pathParts.length) {
+        return null;
+    }
+
+    const params: Record<string, string> = {};
+
+    for (let i = 0; i < patternParts.length; i++) {
+        if (patternParts[i].startsWith(":")) {
+            if (!pathParts[i]) {
+                return null;
+            }
+            try {
+                params[patternParts[i].slice(1)] = decodeURIComponent(
+                    pathParts[i]
+                );
+            } catch {
+                return null;
+            }
+        } else if (patternParts[i] !== pathParts[i]) {
+            return null;
+        }
+    }
+
+    return params;
+}
+
+// Максимальный размер тела запроса (1 МБ)
+const MAX_BODY_SIZE = 1024 * 1024;
+
+const BODY_TOO_LARGE = "Request body too large";
+
+export class HttpServer {
+    private server: http.Server;
+    private routes: Route[] = [];
+    private inFlight = 0;
+    private stopping = false;
+
+    constructor(private port: number) {
+        this.server = http.createServer((req, res) =>
+            this.handleRequest(req, res)
+        );
+    }
+
+    /**
+     * Сколько ждать завершения запросов при остановке
+     * (HTTP_DRAIN_TIMEOUT, секунды)
+     */
+    static getDrainTimeoutMs(): number {
+        return (
+            (parseInt(process.env.HTTP_DRAIN_TIMEOUT || "10", 10) || 10) * 1000
+        );
+    }
+
+    isStopping(): boolean {
+        return this.stopping;
+    }
+
+    get(path: string, handler: RouteHandler) {
+        this.routes.push({ method: "GET", path, handler });
+    }
+
+    post(path: string, handler: RouteHandler) {
+        this.routes.push({ method: "POST", path, handler });
+    }
+
+    /**
+     * Отправка JSON-ответа
+     */
+    static sendJson(res: ServerResponse, status: number, data: any) {
+        res.writeHead(status, { "Content-Type": "application/json" });
+        // telegramId хранится как BigInt — отдаем строкой
+        res.end(
+            JSON.stringify(data, (key, value) =>
+                typeof value === "bigint" ? value.toString() : value
+            )
+        );
+    }
+
+    private async handleRequest(req: IncomingMessage, res: ServerResponse) {
+        this.inFlight++;
+        res.on("close", () => {
+            this.inFlight--;
+            // После ответа соединение освобождается — при остановке закрываем
+            if (this.stopping) {
+                setImmediate(() => this.server.closeIdleConnections());
+            }
+        });
+
+        // При остановке keep-alive соединения закрываются после ответа
+        if (this.stopping) {
+            res.setHeader("Connection", "close");
+        }
+
+        const url = new URL(req.url || "/", "http://localhost");
+        let params: Record<string, string> | null = null;
+        const route = this.routes.find(
+            (r) =>
+                r.method === req.method &&
+                (params = matchPath(r.path, url.pathname)) !== null
+        );
+
+        if (!route || !params) {
+            HttpServer.sendJson(res, 404, { error: "Not found" });
+            return;
+        }
+
+        // Ошибки чтения тела — ошибки клиента, а не обработчика
+        let rawBody: string;
+        let body: any = null;
+
+        try {
+            rawBody = await this.readBody(req);
+            body = rawBody ? JSON.parse(rawBody) : null;
+        } catch (error) {
+            if (error.message === BODY_TOO_LARGE) {
+                res.setHeader("Connection", "close");
+                HttpServer.sendJson(res, 413, { error: "Payload too large" });
+            } else {
+                HttpServer.sendJson(res, 400, {
+                    error:
+                        error instanceof SyntaxError
+                            ? "Invalid JSON"
+                            : "Invalid request body",
+                });
+            }
+            return;
+        }
+
+        try {
+            await route.handler(
+                {
+                    method: req.method!,
+                    path: url.pathname,
+                    params,
+                    query: url.searchParams,
+                    headers: req.headers,
+                    rawBody,
+                    body,
+                },
+                res
+            );
+        } catch (error) {
+            console.error(
+                `❌ Error handling ${req.method} ${url.pathname}:`,
+                error
+            );
+            if (!res.headersSent) {
+                HttpServer.sendJson(res, 500, { error: "Internal error" });
+            }
+        }
+    }
+
+    private readBody(req: IncomingMessage): Promise<string> {
+        return new Promise((resolve, reject) => {
+            let size = 0;
+            const chunks: Buffer[] = [];
+
+            req.on("data", (chunk: Buffer) => {
+                size += chunk.length;
+                if (size > MAX_BODY_SIZE) {
+                    // Остаток тела пропускаем, чтобы успеть ответить 413
+                    req.removeAllListeners("data");
+                    req.resume();
+                    reject(new Error(BODY_TOO_LARGE));
+                    return;
+                }
+                chunks.push(chunk);
+            });
+            req.on("end", () => resolve(Buffer.concat(chunks).toString()));
+            req.on("error", reject);
+        });
+    }
+
+    start(): Promise<void> {
+        return new Promise((resolve) => {
+            this.server.listen(this.port, () => {
+                console.log(`✅ HTTP server listening on port ${this.port}`);
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Остановка с ожиданием начатых запросов: новые соединения не
+     * принимаются, простаивающие закрываются сразу, а по истечении
+     * таймаута — все оставшиеся
+     */
+    async stop(timeoutMs = HttpServer.getDrainTimeoutMs()): Promise<void> {
+        this.stopping = true;
+
+        const closed = new Promise<void>((resolve, reject) => {
+            this.server.close((error) => (error ? reject(error) : resolve()));
+        });
+
+        if (this.inFlight > 0) {
+            console.log(
+                `⏳ Waiting for ${this.inFlight} in-flight HTTP request(s)`
+            );
+        }
+        this.server.closeIdleConnections();
+
+        const timer = setTimeout(() => {
+            console.warn(
+                `⚠️ Closing ${this.inFlight} HTTP request(s) after drain timeout`
+            );
+            this.server.closeAllConnections();
+        }, timeoutMs);
+
+        try {
+            await closed;
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+}
@@ -0,0 +1,43 @@
+import { HttpServer } from "./HttpServer";
+import { PaymentService } from "../services/PaymentService";
+import { NOWPaymentsService } from "../services/NOWPaymentsService";
+
+export const NOWPAYMENTS_IPN_PATH = "/webhooks/nowpayments";
+
+export class NOWPaymentsWebhook {
+    constructor(
+        private server: HttpServer,
+        private paymentService: PaymentService,
+        private ipnSecret: string
+    ) {
+        this.setupRoutes();
+    }
+
+    private setupRoutes() {
+        this.server.post(NOWPAYMENTS_IPN_PATH, async (req, res) => {
+            const signature = req.headers["x-nowpayments-sig"] as string;
+
+            if (
+                !req.body ||
+                !signature ||
+                !NOWPaymentsService.verifyIpnSignature(
+                    req.body,
+                    signature,
+                    this.ipnSecret
+                )
+            ) {
+                console.warn("⚠️ Rejected NOWPayments IPN with invalid signature");
+                HttpServer.sendJson(res, 401, { error: "Invalid signature" });
+                return;
+            }
+
+            console.log(
+                `📩 NOWPayments IPN: ${req.body.payment_id} → ${req.body.payment_status}`
+            );
+
+            await this.paymentService.handleIpnNotification(req.body);
+
+            HttpServer.sendJson(res, 200, { ok: true });
+        });
+    }
+}
@@ -0,0 +1,66 @@
+import TelegramBot from "node-telegram-bot-api";
+import { timingSafeEqual } from "crypto";
+import { HttpServer } from "./HttpServer";
+import { TELEGRAM_ALLOWED_UPDATES } from "../config";
+
+export const TELEGRAM_WEBHOOK_PATH = "/webhooks/telegram";
+
+// Заголовок, в котором Telegram передает secret_token из setWebHook
+const SECRET_HEADER = "x-telegram-bot-api-secret-token";
+
+export class TelegramWebhook {
+    constructor(
+        private server: HttpServer,
+        private bot: TelegramBot,
+        private secret: string
+    ) {
+        this.setupRoutes();
+    }
+
+    /**
+     * Регистрация вебхука в Telegram. publicUrl — внешний адрес бота
+     * (TELEGRAM_WEBHOOK_URL), путь вебхука добавляется к нему
+     */
+    async register(publicUrl: string) {
+        const url = `${publicUrl.replace(/\/+$/, "")}${TELEGRAM_WEBHOOK_PATH}`;
+
+        await this.bot.setWebHook(url, {
+            secret_token: this.secret,
+            allowed_updates: TELEGRAM_ALLOWED_UPDATES,
+        });
+        console.log(`✅ Telegram webhook set: ${url}`);
+    }
+
+    private setupRoutes() {
+        this.server.post(TELEGRAM_WEBHOOK_PATH, async (req, res) => {
+            const token = req.headers[SECRET_HEADER] as string;
+
+            if (!token || !this.isValidSecret(token)) {
+                console.warn("⚠️ Rejected Telegram update with invalid secret");
+                HttpServer.sendJson(res, 401, { error: "Invalid secret" });
+                return;
+            }
+
+            if (!req.body || typeof req.body.update_id !== "number") {
+                HttpServer.sendJson(res, 400, { error: "Invalid update" });
+                return;
+            }
+
+            // Обработчики бота вызываются так же, как при polling; при
+            // остановке их дожидается UpdateTracker
+            this.bot.processUpdate(req.body);
+
+            HttpServer.sendJson(res, 200, { ok: true });
+        });
+    }
+
+    private isValidSecret(token: string): boolean {
+        const expected = Buffer.from(this.secret);
+        const received = Buffer.from(token);
+
+        return (
+            expected.length === received.length &&
+            timingSafeEqual(expected, received)
+        );
+    }
+}
@@ -0,0 +1,68 @@
+import TelegramBot from "node-telegram-bot-api";
+import { HttpServer } from "./HttpServer";
+
+type Listener = (...args: any[]) => unknown;
+
+/**
+ * Учет выполняющихся обработчиков бота. processUpdate и polling не ждут
+ * асинхронные обработчики, а Telegram считает обновление доставленным
+ * сразу — при остановке их нужно дождаться до отключения БД.
+ * Создается до регистрации обработчиков
+ */
+export class UpdateTracker {
+    private pending = new Set<Promise<unknown>>();
+
+    constructor(bot: TelegramBot) {
+        const on = bot.on.bind(bot) as (event: any, listener: Listener) => any;
+        const onText = bot.onText.bind(bot);
+
+        bot.on = ((event: any, listener: Listener) =>
+            on(event, (...args: any[]) =>
+                this.track(listener(...args))
+            )) as typeof bot.on;
+
+        bot.onText = (regexp, callback) =>
+            onText(regexp, (msg, match) => this.track(callback(msg, match)));
+    }
+
+    /**
+     * Ожидание начатых обработчиков, не дольше timeoutMs
+     */
+    async drain(timeoutMs = HttpServer.getDrainTimeoutMs()): Promise<void> {
+        const deadline = Date.now() + timeoutMs;
+
+        // Обработчик мог запустить следующий — ждем, пока не опустеет
+        while (this.pending.size > 0) {
+            const left = deadline - Date.now();
+
+            if (left <= 0) {
+                console.warn(
+                    `⚠️ ${this.pending.size} bot handler(s) still running after drain timeout`
+                );
+                return;
+            }
+
+            console.log(
+                `⏳ Waiting for ${this.pending.size} running bot handler(s)`
+            );
+
+            let timer: NodeJS.Timeout | undefined;
+            await Promise.race([
+                Promise.allSettled([...this.pending]),
+                new Promise((resolve) => (timer = setTimeout(resolve, left))),
+            ]);
+            clearTimeout(timer);
+        }
+    }
+
+    private track(result: unknown) {
+        if (!(result instanceof Promise)) {
+            return;
+        }
+
+        const promise: Promise<unknown> = result
+            .catch((error) => console.error("❌ Bot handler failed:", error))
+            .finally(() => this.pending.delete(promise));
+        this.pending.add(promise);
+    }
+}
@@ -0,0 +1,6 @@
+export * from "./HttpServer";
+export * from "./NOWPaymentsWebhook";
+export * from "./TelegramWebhook";
+export * from "./HealthCheck";
+export * from "./AdminApi";
+export * from "./UpdateTracker";
@@ -0,0 +1,44 @@
+import { AdminAction, Prisma, PrismaClient } from "@prisma/client";
+
+export interface AuditEntry {
+    adminTelegramId: number;
+    action: string;
+    targetUserId?: string;
+    paymentId?: string;
+    details?: Prisma.InputJsonValue;
+}
+
+export class AuditService {
+    constructor(private prisma: PrismaClient) {}
+
+    /**
+     * Запись действия администратора в журнал
+     */
+    async record(entry: AuditEntry): Promise<AdminAction> {
+        const action = await this.prisma.adminAction.create({
+            data: {
+                adminTelegramId: BigInt(entry.adminTelegramId),
+                action: entry.action,
+                targetUserId: entry.targetUserId,
+                paymentId: entry.paymentId,
+                details: entry.details,
+            },
+        });
+
+        console.log(
+            `👮 Admin ${entry.adminTelegramId} ${entry.action}${
+                entry.targetUserId ? ` user ${entry.targetUserId}` : ""
+            }${entry.paymentId ? ` payment ${entry.paymentId}` : ""}`
+        );
+
+        return action;
+    }
+
+    async getUserActions(userId: string, take = 5): Promise<AdminAction[]> {
+        return this.prisma.adminAction.findMany({
+            where: { targetUserId: userId },
+            orderBy: { createdAt: "desc" },
+            take,
+        });
+    }
+}
@@ -0,0 +1,359 @@
+import {
+    AutoRenewal,
+    AutoRenewMethod,
+    Plan,
+    PrismaClient,
+    User,
+} from "@prisma/client";
+import axios from "axios";
+import TelegramBot from "node-telegram-bot-api";
+import { getAdminIds } from "../config";
+import { getUserLocale, planName, t } from "../i18n";
+import { PaymentService } from "./PaymentService";
+import { PlanService } from "./PlanService";
+import { ACCESS_STATUSES, SubscriptionService } from "./SubscriptionService";
+
+// Подписку Stars считаем не продленной, если списания нет через час после окончания
+const STARS_RENEWAL_TIMEOUT = 60 * 60 * 1000;
+
+export class AutoRenewService {
+    constructor(
+        private prisma: PrismaClient,
+        private bot: TelegramBot,
+        private paymentService: PaymentService,
+        private subscriptionService: SubscriptionService
+    ) {}
+
+    /**
+     * За сколько до окончания подписки списывать баланс (AUTO_RENEW_LEAD,
+     * например "1h"), в миллисекундах
+     */
+    static getLeadMs(): number {
+        return (
+            (PlanService.parseDuration(process.env.AUTO_RENEW_LEAD || "1h") ||
+                60 * 60) * 1000
+        );
+    }
+
+    async getActiveRenewals(
+        userId: string
+    ): Promise<(AutoRenewal & { plan: Plan })[]> {
+        return this.prisma.autoRenewal.findMany({
+            where: { userId, isActive: true },
+            include: { plan: true },
+        });
+    }
+
+    /**
+     * Включение продления с баланса; уже активное продление
+     * (в том числе подписка Stars) остается как есть
+     */
+    async enableBalanceRenewal(
+        userId: string,
+        planId: string
+    ): Promise<AutoRenewal> {
+        const existing = await this.prisma.autoRenewal.findUnique({
+            where: { userId_planId: { userId, planId } },
+        });
+
+        if (existing?.isActive) {
+            return existing;
+        }
+
+        const balanceRenewal = {
+            method: AutoRenewMethod.BALANCE,
+            isActive: true,
+            invoicePayload: null,
+            telegramPaymentChargeId: null,
+            expiresAt: null,
+            failureNotifiedAt: null,
+            cancelledAt: null,
+        };
+
+        const renewal = await this.prisma.autoRenewal.upsert({
+            where: { userId_planId: { userId, planId } },
+            create: { userId, planId, ...balanceRenewal },
+            update: balanceRenewal,
+        });
+
+        console.log(`🔁 Auto-renew enabled: plan ${planId}, user ${userId}`);
+        return renewal;
+    }
+
+    /**
+     * Отключение продления; подписка Stars отменяется и в Telegram.
+     * Продление отключается и при ошибке Telegram: о ней узнают
+     * администраторы, а списания по отключенной подписке возвращаются
+     */
+    async cancel(renewalId: string): Promise<AutoRenewal | null> {
+        const renewal = await this.prisma.autoRenewal.findUnique({
+            where: { id: renewalId },
+            include: { user: true },
+        });
+
+        if (!renewal?.isActive) {
+            return null;
+        }
+
+        if (
+            renewal.method === AutoRenewMethod.TELEGRAM_STARS &&
+            renewal.telegramPaymentChargeId
+        ) {
+            try {
+                await this.cancelStarsSubscription(
+                    Number(renewal.user.telegramId),
+                    renewal.telegramPaymentChargeId
+                );
+            } catch (error) {
+                const message =
+                    error.response?.data?.description || error.message;
+
+                console.error(
+                    `❌ Could not cancel Stars subscription ${renewal.id}:`,
+                    message
+                );
+                await this.notifyAdmins(
+                    `⚠️ Could not cancel the Telegram Stars subscription of user ${renewal.user.telegramId} (plan ${renewal.planId}): ${message}. Auto-renew is turned off, further charges will be refunded.`
+                );
+            }
+        }
+
+        const cancelled = await this.prisma.autoRenewal.update({
+            where: { id: renewal.id },
+            data: { isActive: false, cancelledAt: new Date() },
+        });
+
+        console.log(
+            `🔁 Auto-renew cancelled: plan ${renewal.planId}, user ${renewal.userId}`
+        );
+        return cancelled;
+    }
+
+    /**
+     * Продление плана пользователя отключается при возврате платежа
+     */
+    async cancelForPlan(userId: string, planId: string) {
+        const renewal = await this.prisma.autoRenewal.findUnique({
+            where: { userId_planId: { userId, planId } },
+        });
+
+        return renewal ? this.cancel(renewal.id) : null;
+    }
+
+    /**
+     * Отключение всех продлений; ошибка одного не мешает остальным.
+     * Возвращает отключенные
+     */
+    async cancelAll(userId: string): Promise<(AutoRenewal & { plan: Plan })[]> {
+        const cancelled: (AutoRenewal & { plan: Plan })[] = [];
+
+        for (const renewal of await this.getActiveRenewals(userId)) {
+            try {
+                await this.cancel(renewal.id);
+                cancelled.push(renewal);
+            } catch (error) {
+                console.error(
+                    `Error cancelling auto-renew ${renewal.id}:`,
+                    error
+                );
+            }
+        }
+
+        return cancelled;
+    }
+
+    /**
+     * Продление с баланса перед окончанием подписки и проверка
+     * подписок Stars, по которым Telegram не списал оплату
+     */
+    async processDueRenewals() {
+        await this.processBalanceRenewals();
+        await this.processMissedStarsRenewals();
+    }
+
+    private async processBalanceRenewals() {
+        const renewals = await this.prisma.autoRenewal.findMany({
+            where: { isActive: true, method: AutoRenewMethod.BALANCE },
+            include: { user: true, plan: true },
+        });
+        const dueBefore = new Date(Date.now() + AutoRenewService.getLeadMs());
+
+        for (const renewal of renewals) {
+            const channelIds = await this.subscriptionService.getPlanChatIds(
+                renewal.planId
+            );
+            const subscriptions = await this.prisma.subscription.findMany({
+                where: {
+                    userId: renewal.userId,
+                    channelId: { in: channelIds },
+                    status: { in: ACCESS_STATUSES },
+                },
+                orderBy: { endDate: "asc" },
+            });
+
+            // Доступ уже закончился — продлевать нечего
+            if (subscriptions.length === 0) {
+                await this.prisma.autoRenewal.update({
+                    where: { id: renewal.id },
+                    data: { isActive: false, cancelledAt: new Date() },
+                });
+                continue;
+            }
+
+            const endDate = subscriptions[0].endDate;
+            if (endDate > dueBefore) continue;
+
+            try {
+                await this.paymentService.createBalancePayment(
+                    renewal.userId,
+                    renewal.planId
+                );
+                await this.prisma.autoRenewal.update({
+                    where: { id: renewal.id },
+                    data: { failureNotifiedAt: null },
+                });
+
+                const locale = getUserLocale(renewal.user);
+                await this.notify(
+                    renewal.user.telegramId,
+                    t(locale, "renewal.renewedFromBalance", {
+                        plan: planName(renewal.plan, locale),
+                    })
+                );
+            } catch (error) {
+                console.log(
+                    `Auto-renew failed for user ${renewal.userId}, plan ${renewal.planId}:`,
+                    error.message
+                );
+
+                // Повторяем до окончания подписки, но сообщаем один раз
+                if (renewal.failureNotifiedAt) continue;
+
+                await this.prisma.autoRenewal.update({
+                    where: { id: renewal.id },
+                    data: { failureNotifiedAt: new Date() },
+                });
+
+                const locale = getUserLocale(renewal.user);
+                await this.notifyFailure(
+                    renewal,
+                    t(locale, "renewal.balanceFailed", {
+                        plan: planName(renewal.plan, locale),
+                        reason: t(
+                            locale,
+                            error.message === "Insufficient balance"
+                                ? "renewal.reasonFunds"
+                                : "renewal.reasonPlan"
+                        ),
+                    })
+                );
+            }
+        }
+    }
+
+    private async processMissedStarsRenewals() {
+        const renewals = await this.prisma.autoRenewal.findMany({
+            where: {
+                isActive: true,
+                method: AutoRenewMethod.TELEGRAM_STARS,
+                expiresAt: { lt: new Date(Date.now() - STARS_RENEWAL_TIMEOUT) },
+            },
+            include: { user: true, plan: true },
+        });
+
+        for (const renewal of renewals) {
+            // Telegram не списал звезды или пользователь отменил подписку в Telegram
+            const updated = await this.prisma.autoRenewal.updateMany({
+                where: { id: renewal.id, isActive: true },
+                data: {
+                    isActive: false,
+                    cancelledAt: new Date(),
+                    failureNotifiedAt: new Date(),
+                },
+            });
+
+            if (updated.count === 0) continue;
+
+            const locale = getUserLocale(renewal.user);
+            await this.notifyFailure(
+                renewal,
+                t(locale, "renewal.starsFailed", {
+                    plan: planName(renewal.plan, locale),
+                })
+            );
+        }
+    }
+
+    // Отмена подписки Stars через Bot API
+    private async cancelStarsSubscription(
+        telegramId: number,
+        telegramPaymentChargeId: string
+    ) {
+        const response = await axios.post(
+            `https://api.telegram.org/bot${process.env.TELEGRAM_BOT_TOKEN}/editUserStarSubscription`,
+            {
+                user_id: telegramId,
+                telegram_payment_charge_id: telegramPaymentChargeId,
+                is_canceled: true,
+            }
+        );
+
+        if (!response.data.ok) {
+            throw new Error(
+                `Could not cancel Stars subscription: ${response.data.description}`
+            );
+        }
+    }
+
+    private async notifyFailure(
+        renewal: AutoRenewal & { plan: Plan; user: User },
+        text: string
+    ) {
+        const name = planName(renewal.plan, getUserLocale(renewal.user));
+
+        await this.notify(renewal.user.telegramId, text, {
+            inline_keyboard: [
+                [
+                    {
+                        text: `⭐ ${name} · ${renewal.plan.starsPrice}⭐`,
+                        callback_data: `pay_stars_${renewal.planId}`,
+                    },
+                    {
+                        text: `🪙 ${name} · $${renewal.plan.usdPrice}`,
+                        callback_data: `pay_crypto_${renewal.planId}`,
+                    },
+                ],
+            ],
+        });
+    }
+
+    private async notifyAdmins(text: string) {
+        for (const adminId of getAdminIds()) {
+            try {
+                await this.bot.sendMessage(adminId, text);
+            } catch (error) {
+                console.log(
+                    `Could not notify admin ${adminId}:`,
+                    error.message
+                );
+            }
+        }
+    }
+
+    private async notify(
+        telegramId: bigint,
+        text: string,
+        keyboard?: TelegramBot.InlineKeyboardMarkup
+    ) {
+        try {
+            await this.bot.sendMessage(Number(telegramId), text, {
+                reply_markup: keyboard,
+            });
+        } catch (error) {
+            console.log(
+                `Could not send auto-renew message to user ${telegramId}:`,
+                error.message
+            );
+        }
+    }
+}
@@ -0,0 +1,328 @@
+import {
+    Broadcast,
+    BroadcastMediaType,
+    BroadcastSegment,
+    BroadcastStatus,
+    PaymentStatus,
+    Prisma,
+    PrismaClient,
+} from "@prisma/client";
+import TelegramBot from "node-telegram-bot-api";
+import { ACCESS_STATUSES } from "./SubscriptionService";
+
+export interface BroadcastButton {
+    text: string;
+    url: string;
+}
+
+export interface BroadcastInput {
+    adminTelegramId: number;
+    segment: BroadcastSegment;
+    text?: string;
+    mediaType?: BroadcastMediaType;
+    mediaFileId?: string;
+    buttons: BroadcastButton[];
+}
+
+// Получатели выбираются пачками, прогресс сохраняется после каждого
+const BATCH_SIZE = 100;
+
+export class BroadcastService {
+    private running = new Set<string>();
+    // Отмененные во время отправки: run проверяет их перед каждым сообщением
+    private cancelled = new Set<string>();
+    private stopped = false;
+
+    constructor(private prisma: PrismaClient, private bot: TelegramBot) {}
+
+    /**
+     * Скорость отправки (BROADCAST_RATE, сообщений в секунду).
+     * Telegram допускает около 30 сообщений в секунду на бота
+     */
+    static getRate(): number {
+        return parseInt(process.env.BROADCAST_RATE || "20", 10) || 20;
+    }
+
+    /**
+     * Условие выборки пользователей сегмента
+     */
+    private getSegmentWhere(
+        segment: BroadcastSegment
+    ): Prisma.UserWhereInput {
+        const activeSubscription = {
+            status: { in: ACCESS_STATUSES },
+        };
+
+        switch (segment) {
+            case BroadcastSegment.ACTIVE:
+                return { subscriptions: { some: activeSubscription } };
+            case BroadcastSegment.EXPIRED:
+                return {
+                    subscriptions: { some: {}, none: activeSubscription },
+                };
+            case BroadcastSegment.NEVER_PAID:
+                return {
+                    payments: { none: { status: PaymentStatus.COMPLETED } },
+                };
+            default:
+                return {};
+        }
+    }
+
+    async countRecipients(segment: BroadcastSegment): Promise<number> {
+        return this.prisma.user.count({
+            where: this.getSegmentWhere(segment),
+        });
+    }
+
+    async createDraft(input: BroadcastInput): Promise<Broadcast> {
+        return this.prisma.broadcast.create({
+            data: {
+                adminTelegramId: BigInt(input.adminTelegramId),
+                segment: input.segment,
+                text: input.text,
+                mediaType: input.mediaType,
+                mediaFileId: input.mediaFileId,
+                buttons: input.buttons as unknown as Prisma.InputJsonValue,
+            },
+        });
+    }
+
+    async getBroadcast(broadcastId: string): Promise<Broadcast | null> {
+        return this.prisma.broadcast.findUnique({
+            where: { id: broadcastId },
+        });
+    }
+
+    async getRecentBroadcasts(take = 10): Promise<Broadcast[]> {
+        return this.prisma.broadcast.findMany({
+            orderBy: { createdAt: "desc" },
+            take,
+        });
+    }
+
+    /**
+     * Отправка сообщения рассылки одному получателю (и для предпросмотра)
+     */
+    async deliver(chatId: number, broadcast: Broadcast) {
+        const buttons =
+            (broadcast.buttons as unknown as BroadcastButton[]) || [];
+        const reply_markup = buttons.length
+            ? {
+                  inline_keyboard: buttons.map((button) => [
+                      { text: button.text, url: button.url },
+                  ]),
+              }
+            : undefined;
+
+        switch (broadcast.mediaType) {
+            case BroadcastMediaType.PHOTO:
+                return this.bot.sendPhoto(chatId, broadcast.mediaFileId!, {
+                    caption: broadcast.text || undefined,
+                    reply_markup,
+                });
+            case BroadcastMediaType.VIDEO:
+                return this.bot.sendVideo(chatId, broadcast.mediaFileId!, {
+                    caption: broadcast.text || undefined,
+                    reply_markup,
+                });
+            default:
+                return this.bot.sendMessage(chatId, broadcast.text!, {
+                    reply_markup,
+                });
+        }
+    }
+
+    /**
+     * Подтверждение черновика и запуск отправки в фоне
+     */
+    async start(broadcastId: string): Promise<boolean> {
+        // Условное обновление защищает от двойного запуска
+        const started = await this.prisma.broadcast.updateMany({
+            where: { id: broadcastId, status: BroadcastStatus.DRAFT },
+            data: { status: BroadcastStatus.SENDING, startedAt: new Date() },
+        });
+
+        if (started.count === 0) {
+            return false;
+        }
+
+        this.runInBackground(broadcastId);
+        return true;
+    }
+
+    async cancel(broadcastId: string): Promise<boolean> {
+        const cancelled = await this.prisma.broadcast.updateMany({
+            where: {
+                id: broadcastId,
+                status: {
+                    in: [BroadcastStatus.DRAFT, BroadcastStatus.SENDING],
+                },
+            },
+            data: { status: BroadcastStatus.CANCELLED },
+        });
+
+        if (cancelled.count > 0 && this.running.has(broadcastId)) {
+            this.cancelled.add(broadcastId);
+        }
+
+        return cancelled.count > 0;
+    }
+
+    /**
+     * Возобновление рассылок, прерванных перезапуском бота
+     */
+    async resumePending() {
+        const broadcasts = await this.prisma.broadcast.findMany({
+            where: { status: BroadcastStatus.SENDING },
+        });
+
+        for (const broadcast of broadcasts) {
+            console.log(`📣 Resuming broadcast ${broadcast.id}`);
+            this.runInBackground(broadcast.id);
+        }
+    }
+
+    /**
+     * Остановка отправки при завершении работы; прогресс сохранен,
+     * рассылка продолжится после запуска
+     */
+    stop() {
+        this.stopped = true;
+    }
+
+    private runInBackground(broadcastId: string) {
+        if (this.running.has(broadcastId)) return;
+
+        this.running.add(broadcastId);
+        this.run(broadcastId)
+            .catch((error) =>
+                console.error(`❌ Broadcast ${broadcastId} failed:`, error)
+            )
+            .finally(() => {
+                this.running.delete(broadcastId);
+                this.cancelled.delete(broadcastId);
+            });
+    }
+
+    private async run(broadcastId: string) {
+        const delay = 1000 / BroadcastService.getRate();
+
+        while (!this.stopped) {
+            const broadcast = await this.getBroadcast(broadcastId);
+            if (!broadcast || broadcast.status !== BroadcastStatus.SENDING) {
+                return;
+            }
+
+            // Получатели по возрастанию id — курсор lastUserId
+            const users = await this.prisma.user.findMany({
+                where: {
+                    ...this.getSegmentWhere(broadcast.segment),
+                    ...(broadcast.lastUserId
+                        ? { id: { gt: broadcast.lastUserId } }
+                        : {}),
+                },
+                orderBy: { id: "asc" },
+                take: BATCH_SIZE,
+            });
+
+            if (users.length === 0) {
+                await this.complete(broadcast);
+                return;
+            }
+
+            for (const user of users) {
+                if (this.stopped || this.cancelled.has(broadcastId)) return;
+
+                const result = await this.sendWithRetry(
+                    Number(user.telegramId),
+                    broadcast
+                );
+
+                await this.prisma.broadcast.update({
+                    where: { id: broadcast.id },
+                    data: {
+                        lastUserId: user.id,
+                        [`${result}Count`]: { increment: 1 },
+                    },
+                });
+
+                await new Promise((resolve) => setTimeout(resolve, delay));
+            }
+        }
+    }
+
+    /**
+     * Отправка с повтором при превышении лимита Telegram (429)
+     */
+    private async sendWithRetry(
+        chatId: number,
+        broadcast: Broadcast
+    ): Promise<"delivered" | "failed" | "blocked"> {
+        for (let attempt = 0; attempt < 3; attempt++) {
+            try {
+                await this.deliver(chatId, broadcast);
+                return "delivered";
+            } catch (error) {
+                const body = error.response?.body;
+
+                if (body?.error_code === 429) {
+                    const retryAfter = body.parameters?.retry_after || 1;
+                    console.log(
+                        `⏳ Broadcast rate limited, waiting ${retryAfter}s`
+                    );
+                    await new Promise((resolve) =>
+                        setTimeout(resolve, retryAfter * 1000)
+                    );
+                    continue;
+                }
+
+                // 403 — пользователь заблокировал бота
+                if (body?.error_code === 403) {
+                    return "blocked";
+                }
+
+                console.log(
+                    `Could not deliver broadcast ${broadcast.id} to ${chatId}:`,
+                    error.message
+                );
+                return "failed";
+            }
+        }
+
+        return "failed";
+    }
+
+    private async complete(broadcast: Broadcast) {
+        const completed = await this.prisma.broadcast.updateMany({
+            where: { id: broadcast.id, status: BroadcastStatus.SENDING },
+            data: {
+                status: BroadcastStatus.COMPLETED,
+                completedAt: new Date(),
+            },
+        });
+
+        if (completed.count === 0) return;
+
+        const stats = await this.getBroadcast(broadcast.id);
+        console.log(
+            `📣 Broadcast ${broadcast.id} completed: ${stats!.deliveredCount} delivered, ${stats!.failedCount} failed, ${stats!.blockedCount} blocked`
+        );
+
+        try {
+            await this.bot.sendMessage(
+                Number(broadcast.adminTelegramId),
+                `📣 Broadcast ${broadcast.id} completed.\n✅ Delivered: ${
+                    stats!.deliveredCount
+                }\n❌ Failed: ${stats!.failedCount}\n🚫 Blocked the bot: ${
+                    stats!.blockedCount
+                }`
+            );
+        } catch (error) {
+            console.log(
+                `Could not send broadcast report to admin ${broadcast.adminTelegramId}:`,
+                error.message
+            );
+        }
+    }
+}
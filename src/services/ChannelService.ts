@@ -0,0 +1,115 @@
+import { PrismaClient, Channel } from "@prisma/client";
+
+export class ChannelService {
+    constructor(private prisma: PrismaClient) {}
+
+    /**
+     * Каналы, доступные для покупки, в порядке отображения
+     */
+    async getActiveChannels(): Promise<Channel[]> {
+        return this.prisma.channel.findMany({
+            where: { isActive: true },
+            orderBy: [{ sortOrder: "asc" }, { createdAt: "asc" }],
+        });
+    }
+
+    /**
+     * Все каналы, включая скрытые
+     */
+    async getAllChannels(): Promise<Channel[]> {
+        return this.prisma.channel.findMany({
+            orderBy: [{ sortOrder: "asc" }, { createdAt: "asc" }],
+        });
+    }
+
+    async getChannel(channelId: string): Promise<Channel | null> {
+        return this.prisma.channel.findUnique({ where: { id: channelId } });
+    }
+
+    async getChannelByChatId(telegramChatId: string): Promise<Channel | null> {
+        return this.prisma.channel.findUnique({ where: { telegramChatId } });
+    }
+
+    /**
+     * Каналы, доступ к которым выдает план (несколько — пакет)
+     */
+    async getPlanChannels(
+        planId: string,
+        tx: any = this.prisma
+    ): Promise<Channel[]> {
+        const links = await tx.planChannel.findMany({
+            where: { planId },
+            include: { channel: true },
+        });
+
+        return links
+            .map((link) => link.channel as Channel)
+            .sort((a, b) => a.sortOrder - b.sortOrder);
+    }
+
+    async createChannel(
+        telegramChatId: string,
+        title: string
+    ): Promise<Channel> {
+        const channels = await this.getAllChannels();
+
+        return this.prisma.channel.create({
+            data: { telegramChatId, title, sortOrder: channels.length + 1 },
+        });
+    }
+
+    async setChannelActive(
+        channelId: string,
+        isActive: boolean
+    ): Promise<Channel> {
+        return this.prisma.channel.update({
+            where: { id: channelId },
+            data: { isActive },
+        });
+    }
+
+    /**
+     * Замена набора каналов плана
+     */
+    async setPlanChannels(planId: string, channelIds: string[]) {
+        await this.prisma.$transaction([
+            this.prisma.planChannel.deleteMany({ where: { planId } }),
+            this.prisma.planChannel.createMany({
+                data: channelIds.map((channelId) => ({ planId, channelId })),
+            }),
+        ]);
+    }
+
+    /**
+     * Регистрация канала из CHANNEL_ID для установок с одним каналом.
+     * Планы без каналов привязываются к нему только при первой
+     * регистрации: позже план без каналов — решение администратора
+     */
+    async ensureDefaultChannel(telegramChatId: string, title: string) {
+        const existing = await this.getChannelByChatId(telegramChatId);
+
+        if (existing) {
+            return existing;
+        }
+
+        const channel = await this.createChannel(telegramChatId, title);
+
+        const orphanPlans = await this.prisma.plan.findMany({
+            where: { channels: { none: {} } },
+        });
+
+        if (orphanPlans.length > 0) {
+            await this.prisma.planChannel.createMany({
+                data: orphanPlans.map((plan) => ({
+                    planId: plan.id,
+                    channelId: channel.id,
+                })),
+            });
+            console.log(
+                `📢 Linked ${orphanPlans.length} plan(s) to channel ${channel.title}`
+            );
+        }
+
+        return channel;
+    }
+}
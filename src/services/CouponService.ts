@@ -0,0 +1,218 @@
+import {
+    PrismaClient,
+    Coupon,
+    DiscountType,
+    PaymentStatus,
+    Plan,
+} from "@prisma/client";
+import { MessageKey } from "../i18n";
+
+export interface CouponInput {
+    code: string;
+    discountType: DiscountType;
+    discountValue: number;
+    planIds?: string[];
+    maxUses?: number;
+    perUserLimit?: number;
+    expiresAt?: Date;
+}
+
+export interface PlanPrice {
+    starsPrice: number;
+    usdPrice: number;
+    starsDiscount: number;
+    usdDiscount: number;
+    coupon: Coupon | null;
+}
+
+// Платежи, которые считаются использованием промокода
+const REDEEMED_STATUSES = [
+    PaymentStatus.COMPLETED,
+    PaymentStatus.PARTIALLY_PAID,
+];
+
+export class CouponService {
+    constructor(private prisma: PrismaClient) {}
+
+    static normalizeCode(code: string): string {
+        return code.trim().toUpperCase();
+    }
+
+    async createCoupon(data: CouponInput): Promise<Coupon> {
+        return this.prisma.coupon.create({
+            data: {
+                ...data,
+                code: CouponService.normalizeCode(data.code),
+                planIds: data.planIds || [],
+            },
+        });
+    }
+
+    async disableCoupon(code: string): Promise<Coupon> {
+        return this.prisma.coupon.update({
+            where: { code: CouponService.normalizeCode(code) },
+            data: { isActive: false },
+        });
+    }
+
+    /**
+     * Причина, по которой промокод нельзя использовать, — ключ текста
+     * (null — можно)
+     */
+    async getCouponError(
+        coupon: Coupon | null,
+        userId: string,
+        planId?: string
+    ): Promise<MessageKey | null> {
+        if (!coupon || !coupon.isActive) {
+            return "coupon.notFound";
+        }
+
+        if (coupon.expiresAt && coupon.expiresAt < new Date()) {
+            return "coupon.expired";
+        }
+
+        if (
+            planId &&
+            coupon.planIds.length > 0 &&
+            !coupon.planIds.includes(planId)
+        ) {
+            return "coupon.wrongPlan";
+        }
+
+        if (coupon.maxUses !== null) {
+            const uses = await this.prisma.payment.count({
+                where: {
+                    couponId: coupon.id,
+                    status: { in: REDEEMED_STATUSES },
+                },
+            });
+            if (uses >= coupon.maxUses) {
+                return "coupon.limitReached";
+            }
+        }
+
+        if (coupon.perUserLimit !== null) {
+            const userUses = await this.prisma.payment.count({
+                where: {
+                    couponId: coupon.id,
+                    userId,
+                    status: { in: REDEEMED_STATUSES },
+                },
+            });
+            if (userUses >= coupon.perUserLimit) {
+                return "coupon.alreadyUsed";
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Применение промокода к следующей покупке пользователя
+     */
+    async applyCoupon(userId: string, code: string) {
+        const coupon = await this.prisma.coupon.findUnique({
+            where: { code: CouponService.normalizeCode(code) },
+        });
+
+        const error = await this.getCouponError(coupon, userId);
+        if (error) {
+            return { coupon: null, error };
+        }
+
+        await this.prisma.user.update({
+            where: { id: userId },
+            data: { couponId: coupon!.id },
+        });
+
+        return { coupon, error: null };
+    }
+
+    /**
+     * Цена плана с учетом промокода пользователя
+     */
+    async getPlanPrice(userId: string, plan: Plan): Promise<PlanPrice> {
+        const user = await this.prisma.user.findUnique({
+            where: { id: userId },
+            include: { coupon: true },
+        });
+
+        const usdPrice = Number(plan.usdPrice);
+        const coupon = user?.coupon || null;
+        const error = await this.getCouponError(coupon, userId, plan.id);
+
+        if (!coupon || error) {
+            return {
+                starsPrice: plan.starsPrice,
+                usdPrice,
+                starsDiscount: 0,
+                usdDiscount: 0,
+                coupon: null,
+            };
+        }
+
+        // Доля скидки от цены плана, одинаковая для звезд и USD
+        const discountValue = Number(coupon.discountValue);
+        const ratio = Math.min(
+            1,
+            coupon.discountType === DiscountType.PERCENT
+                ? discountValue / 100
+                : discountValue / usdPrice
+        );
+
+        // Бесплатно купить нельзя: минимум 1 звезда и 0.01 USD
+        const starsDiscount = Math.min(
+            plan.starsPrice - 1,
+            Math.round(plan.starsPrice * ratio)
+        );
+        const usdDiscount = Math.min(
+            Math.round((usdPrice - 0.01) * 100) / 100,
+            Math.round(usdPrice * ratio * 100) / 100
+        );
+
+        return {
+            starsPrice: plan.starsPrice - starsDiscount,
+            usdPrice: Math.round((usdPrice - usdDiscount) * 100) / 100,
+            starsDiscount,
+            usdDiscount,
+            coupon,
+        };
+    }
+
+    /**
+     * Статистика использования промокодов
+     */
+    async getRedemptionStats() {
+        const coupons = await this.prisma.coupon.findMany({
+            orderBy: { createdAt: "desc" },
+        });
+
+        const stats = await this.prisma.payment.groupBy({
+            by: ["couponId", "currency"],
+            _count: { id: true },
+            _sum: { discountAmount: true },
+            where: {
+                couponId: { not: null },
+                status: { in: REDEEMED_STATUSES },
+            },
+        });
+
+        return coupons.map((coupon) => {
+            const couponStats = stats.filter((s) => s.couponId === coupon.id);
+            const starsStats = couponStats.find((s) => s.currency === "XTR");
+
+            return {
+                coupon,
+                uses: couponStats.reduce((sum, s) => sum + s._count.id, 0),
+                starsDiscount: Number(starsStats?._sum.discountAmount || 0),
+                usdDiscount: couponStats
+                    .filter((s) => s.currency !== "XTR")
+                    .reduce(
+                        (sum, s) => sum + Number(s._sum.discountAmount || 0),
+                        0
+                    ),
+            };
+        });
+    }
+}
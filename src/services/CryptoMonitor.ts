@@ -1,4 +1,9 @@
-import { PrismaClient, PaymentStatus, PaymentType } from "@prisma/client";
+import {
+    PrismaClient,
+    PaymentEventSource,
+    PaymentStatus,
+    PaymentType,
+} from "@prisma/client";
 import { PaymentService } from "./PaymentService";
 
 export class CryptoMonitor {
@@ -14,11 +19,25 @@ export class CryptoMonitor {
         try {
             console.log("🔄 Checking pending crypto payments...");
 
-            // Получаем все pending крипто-платежи
+            // Получаем все pending и частично оплаченные крипто-платежи
             const pendingPayments = await this.prisma.payment.findMany({
                 where: {
-                    status: PaymentStatus.PENDING,
-                    paymentType: PaymentType.CRYPTO_USDT,
+                    OR: [
+                        {
+                            status: {
+                                in: [
+                                    PaymentStatus.PENDING,
+                                    PaymentStatus.PARTIALLY_PAID,
+                                ],
+                            },
+                        },
+                        // Замененные доплаты — до истечения их адреса
+                        {
+                            status: PaymentStatus.FAILED,
+                            parentPaymentId: { not: null },
+                        },
+                    ],
+                    paymentType: PaymentType.CRYPTO,
                     expiresAt: { gte: new Date() },
                     cryptoTxHash: { not: null }, // У нас есть payment_id от NOWPayments
                 },
@@ -36,7 +55,8 @@ export class CryptoMonitor {
                 try {
                     const result =
                         await this.paymentService.checkCryptoPaymentStatus(
-                            payment.cryptoTxHash!
+                            payment.cryptoTxHash!,
+                            PaymentEventSource.POLL
                         );
 
                     checkedCount++;
@@ -91,20 +111,11 @@ export class CryptoMonitor {
      */
     async cleanupExpiredPayments() {
         try {
-            const expiredCount = await this.prisma.payment.updateMany({
-                where: {
-                    status: PaymentStatus.PENDING,
-                    expiresAt: { lt: new Date() },
-                },
-                data: {
-                    status: PaymentStatus.EXPIRED,
-                },
-            });
+            const expiredCount =
+                await this.paymentService.cleanupExpiredPayments();
 
-            if (expiredCount.count > 0) {
-                console.log(
-                    `🧹 Marked ${expiredCount.count} payments as expired`
-                );
+            if (expiredCount > 0) {
+                console.log(`🧹 Marked ${expiredCount} payments as expired`);
             }
         } catch (error) {
             console.error("Error cleaning up expired payments:", error);
@@ -0,0 +1,111 @@
+import { PeriodSource, PrismaClient } from "@prisma/client";
+import { randomUUID } from "crypto";
+import { SubscriptionService } from "./SubscriptionService";
+
+export const GIFT_PAYLOAD_PREFIX = "gift_";
+
+export class GiftService {
+    constructor(
+        private prisma: PrismaClient,
+        private subscriptionService: SubscriptionService
+    ) {}
+
+    /**
+     * Срок действия неактивированного подарка (GIFT_EXPIRY_DAYS)
+     */
+    static getExpiryDays(): number {
+        return parseInt(process.env.GIFT_EXPIRY_DAYS || "30", 10) || 30;
+    }
+
+    /**
+     * Выпуск подарочного кода по оплаченному платежу
+     */
+    async createGift(tx: any, payment: any) {
+        const gift = await tx.gift.create({
+            data: {
+                code: randomUUID().replace(/-/g, "").slice(0, 12),
+                buyerId: payment.userId,
+                planId: payment.planId,
+                durationSeconds: payment.durationSeconds,
+                paymentId: payment.id,
+                expiresAt: new Date(
+                    Date.now() + GiftService.getExpiryDays() * 24 * 60 * 60 * 1000
+                ),
+            },
+            include: { plan: true },
+        });
+
+        console.log(`🎁 Gift ${gift.code} issued for payment ${payment.id}`);
+        return gift;
+    }
+
+    /**
+     * Отзыв подарка при возврате платежа: неактивированный подарок
+     * сгорает, у получателя забирается подаренное время
+     */
+    async revokeGift(tx: any, payment: any) {
+        const gift = await tx.gift.findUnique({
+            where: { paymentId: payment.id },
+        });
+
+        if (!gift) {
+            return [];
+        }
+
+        if (!gift.redeemedAt) {
+            await tx.gift.update({
+                where: { id: gift.id },
+                data: { expiresAt: new Date() },
+            });
+            return [];
+        }
+
+        return this.subscriptionService.revokeGiftTime(tx, gift);
+    }
+
+    /**
+     * Активация подарка получателем. Текст ошибки — ключ сообщения
+     */
+    async redeemGift(code: string, userId: string) {
+        const gift = await this.prisma.gift.findUnique({
+            where: { code },
+            include: { buyer: true, plan: true },
+        });
+
+        if (!gift || gift.redeemedAt) {
+            throw new Error("gift.invalid");
+        }
+
+        if (gift.expiresAt < new Date()) {
+            throw new Error("gift.expired");
+        }
+
+        if (gift.buyerId === userId) {
+            throw new Error("gift.own");
+        }
+
+        const subscriptions = await this.prisma.$transaction(async (tx) => {
+            // Условное обновление защищает от двойной активации
+            const marked = await tx.gift.updateMany({
+                where: { id: gift.id, redeemedAt: null },
+                data: { redeemedAt: new Date(), recipientId: userId },
+            });
+
+            if (marked.count === 0) {
+                throw new Error("gift.used");
+            }
+
+            return this.subscriptionService.grantAccess(tx, {
+                userId,
+                planId: gift.planId,
+                duration: gift.durationSeconds * 1000,
+                source: PeriodSource.GIFT,
+                paymentId: gift.paymentId,
+                giftId: gift.id,
+            });
+        });
+
+        console.log(`🎁 Gift ${gift.code} redeemed by user ${userId}`);
+        return { gift, subscriptions };
+    }
+}
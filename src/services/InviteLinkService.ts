@@ -0,0 +1,151 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import TelegramBot from "node-telegram-bot-api";
+
+export class InviteLinkService {
+    constructor(
+        private prisma: PrismaClient,
+        private bot: TelegramBot
+    ) {}
+
+    /**
+     * Срок действия ссылки-приглашения (INVITE_LINK_TTL_HOURS)
+     */
+    static getLinkTtlHours(): number {
+        return parseInt(process.env.INVITE_LINK_TTL_HOURS || "24", 10) || 24;
+    }
+
+    /**
+     * Одноразовая ссылка в канал, привязанная к пользователю и платежу.
+     * Прежние неиспользованные ссылки пользователя в этот канал отзываются
+     */
+    async issue(
+        channelId: string,
+        userId: string,
+        paymentId?: string | null
+    ): Promise<string> {
+        await this.revokeLinks({ channelId, userId });
+        await this.liftBan(channelId, userId);
+
+        const expiresAt = new Date(
+            Date.now() + InviteLinkService.getLinkTtlHours() * 60 * 60 * 1000
+        );
+
+        try {
+            const inviteLink = await this.bot.createChatInviteLink(channelId, {
+                name: `Invite_${Date.now()}`,
+                expire_date: Math.floor(expiresAt.getTime() / 1000),
+                member_limit: 1, // Только для одного пользователя
+                creates_join_request: false, // Прямое добавление без запроса
+            });
+
+            await this.prisma.inviteLink.create({
+                data: {
+                    link: inviteLink.invite_link,
+                    channelId,
+                    userId,
+                    paymentId,
+                    expiresAt,
+                },
+            });
+
+            return inviteLink.invite_link;
+        } catch (error) {
+            console.error("Error creating invite link:", error);
+            throw new Error("Failed to create invite link");
+        }
+    }
+
+    /**
+     * Отметка о вступлении по ссылке; вступивший сравнивается с
+     * владельцем. null — ссылка выдана не ботом
+     */
+    async recordJoin(update: TelegramBot.ChatMemberUpdated) {
+        if (!update.invite_link) {
+            return null;
+        }
+
+        const invite = await this.prisma.inviteLink.findUnique({
+            where: { link: update.invite_link.invite_link },
+            include: { user: true },
+        });
+
+        if (!invite) {
+            return null;
+        }
+
+        const joinedBy = BigInt(update.new_chat_member.user.id);
+        const now = new Date();
+
+        return this.prisma.inviteLink.update({
+            where: { id: invite.id },
+            data: {
+                usedAt: now,
+                usedByTelegramId: joinedBy,
+                mismatchAt: invite.user.telegramId !== joinedBy ? now : null,
+            },
+            include: { user: true },
+        });
+    }
+
+    /**
+     * Отзыв неиспользованных ссылок пользователя в канал (подписка
+     * закончилась или пользователь удален из канала)
+     */
+    async revokeUnused(channelId: string, telegramId: bigint) {
+        return this.revokeLinks({ channelId, user: { telegramId } });
+    }
+
+    /**
+     * Снятие бана, оставшегося от прежних удалений по истечении: с ним
+     * по ссылке не вступить. Участника канала only_if_banned не трогает
+     */
+    private async liftBan(channelId: string, userId: string) {
+        const user = await this.prisma.user.findUnique({
+            where: { id: userId },
+        });
+
+        if (!user) {
+            return;
+        }
+
+        try {
+            await this.bot.unbanChatMember(channelId, Number(user.telegramId), {
+                only_if_banned: true,
+            });
+        } catch (error) {
+            console.log(
+                `Could not unban user ${user.telegramId}:`,
+                error.message
+            );
+        }
+    }
+
+    private async revokeLinks(where: Prisma.InviteLinkWhereInput) {
+        const links = await this.prisma.inviteLink.findMany({
+            where: {
+                ...where,
+                usedAt: null,
+                revokedAt: null,
+                expiresAt: { gt: new Date() },
+            },
+        });
+
+        for (const link of links) {
+            try {
+                await this.bot.revokeChatInviteLink(link.channelId, link.link);
+            } catch (error) {
+                console.log(
+                    `Could not revoke invite link ${link.id}:`,
+                    error.message
+                );
+            }
+
+            await this.prisma.inviteLink.update({
+                where: { id: link.id },
+                data: { revokedAt: new Date() },
+            });
+        }
+
+        return links.length;
+    }
+}
@@ -0,0 +1,393 @@
+import { Channel, ChannelMember, PrismaClient } from "@prisma/client";
+import TelegramBot from "node-telegram-bot-api";
+import { ChannelService } from "./ChannelService";
+import { InviteLinkService } from "./InviteLinkService";
+import { ACCESS_STATUSES, SubscriptionService } from "./SubscriptionService";
+import { getAdminIds } from "../config";
+import { getUserLocale, t } from "../i18n";
+
+export interface ChannelAudit {
+    channel: Channel;
+    members: number; // Известных участников
+    unauthorized: ChannelMember[];
+    removed: number;
+}
+
+export interface MembershipAuditResult {
+    channels: ChannelAudit[];
+    unauthorized: number;
+    removed: number;
+}
+
+// Статусы, при которых пользователь состоит в канале
+const MEMBER_STATUSES = ["creator", "administrator", "member"];
+
+// Администраторы канала подписку не оплачивают
+const STAFF_STATUSES = ["creator", "administrator"];
+
+// Сколько участников перечислять в сообщении администраторам
+const MAX_REPORTED_MEMBERS = 30;
+
+export class MembershipService {
+    private running = false;
+
+    constructor(
+        private prisma: PrismaClient,
+        private bot: TelegramBot,
+        private channelService: ChannelService,
+        private subscriptionService: SubscriptionService,
+        private inviteLinkService: InviteLinkService
+    ) {}
+
+    /**
+     * Удалять ли участников без подписки при плановой проверке
+     * (MEMBER_AUDIT_AUTO_REMOVE=true); иначе только отчет
+     */
+    static isAutoRemoveEnabled(): boolean {
+        return process.env.MEMBER_AUDIT_AUTO_REMOVE === "true";
+    }
+
+    /**
+     * Учет вступлений и выходов по обновлению chat_member. Обновления
+     * приходят, только если бот — администратор канала
+     */
+    async handleChatMemberUpdate(update: TelegramBot.ChatMemberUpdated) {
+        const channel = await this.channelService.getChannelByChatId(
+            update.chat.id.toString()
+        );
+
+        if (!channel) {
+            return;
+        }
+
+        const { user, status } = update.new_chat_member;
+        const fromStatus = update.old_chat_member.status;
+        const isMember = this.isMemberStatus(update.new_chat_member);
+        const wasMember = this.isMemberStatus(update.old_chat_member);
+        const now = new Date(update.date * 1000);
+        const telegramId = BigInt(user.id);
+
+        const profile = {
+            username: user.username,
+            firstName: user.first_name,
+            isBot: user.is_bot,
+            status,
+            isMember,
+            ...(isMember && !wasMember ? { joinedAt: now } : {}),
+            ...(!isMember && wasMember ? { leftAt: now } : {}),
+        };
+
+        await this.prisma.$transaction([
+            this.prisma.channelMember.upsert({
+                where: {
+                    channelId_telegramId: {
+                        channelId: channel.telegramChatId,
+                        telegramId,
+                    },
+                },
+                create: {
+                    channelId: channel.telegramChatId,
+                    telegramId,
+                    ...profile,
+                },
+                update: profile,
+            }),
+            this.prisma.channelMemberEvent.create({
+                data: {
+                    channelId: channel.telegramChatId,
+                    telegramId,
+                    fromStatus,
+                    toStatus: status,
+                    actorId:
+                        update.from.id !== user.id
+                            ? BigInt(update.from.id)
+                            : null,
+                    inviteLink: update.invite_link?.invite_link,
+                },
+            }),
+        ]);
+
+        if (isMember !== wasMember) {
+            console.log(
+                `${isMember ? "➕" : "➖"} User ${user.id} ${
+                    isMember ? "joined" : "left"
+                } ${channel.title} (${fromStatus} → ${status})`
+            );
+        }
+
+        if (isMember && !wasMember) {
+            await this.checkInviteLink(channel, update);
+        }
+    }
+
+    /**
+     * Вступление по чужой ссылке: участник без своей подписки удаляется,
+     * владелец ссылки и администраторы получают уведомление
+     */
+    private async checkInviteLink(
+        channel: Channel,
+        update: TelegramBot.ChatMemberUpdated
+    ) {
+        const invite = await this.inviteLinkService.recordJoin(update);
+
+        if (!invite?.mismatchAt) {
+            return;
+        }
+
+        const joined = update.new_chat_member.user;
+        const hasAccess =
+            (await this.prisma.subscription.count({
+                where: {
+                    channelId: channel.telegramChatId,
+                    status: { in: ACCESS_STATUSES },
+                    user: { telegramId: BigInt(joined.id) },
+                },
+            })) > 0;
+
+        const removed =
+            !hasAccess &&
+            (await this.subscriptionService.removeFromChannel(
+                channel.telegramChatId,
+                joined.id
+            ));
+
+        console.warn(
+            `⚠️ Invite link ${invite.id} of user ${invite.user.telegramId} used by ${joined.id} in ${channel.title}`
+        );
+
+        try {
+            await this.bot.sendMessage(
+                Number(invite.user.telegramId),
+                t(getUserLocale(invite.user), "invite.misused", {
+                    channel: channel.title,
+                })
+            );
+        } catch (error) {
+            console.log(
+                `Could not notify link owner ${invite.user.telegramId}:`,
+                error.message
+            );
+        }
+
+        const text = `🔗 Invite link of user ${invite.user.telegramId}${
+            invite.paymentId ? ` (payment ${invite.paymentId})` : ""
+        } was used by ${joined.id}${
+            joined.username ? ` @${joined.username}` : ""
+        } in ${channel.title}: ${
+            hasAccess
+                ? "not removed, they have their own subscription"
+                : removed
+                ? "removed"
+                : "removal failed"
+        }`;
+
+        await this.notifyAdmins(text);
+    }
+
+    /**
+     * Сверка участников каналов с действующими подписками. Участники без
+     * подписки попадают в отчет, при remove — удаляются из канала
+     */
+    async audit(remove: boolean): Promise<MembershipAuditResult | null> {
+        if (this.running) {
+            console.log("⏭️ Membership audit is already running");
+            return null;
+        }
+
+        this.running = true;
+        const result: MembershipAuditResult = {
+            channels: [],
+            unauthorized: 0,
+            removed: 0,
+        };
+
+        try {
+            for (const channel of await this.channelService.getAllChannels()) {
+                const audit = await this.auditChannel(channel, remove);
+
+                result.channels.push(audit);
+                result.unauthorized += audit.unauthorized.length;
+                result.removed += audit.removed;
+            }
+
+            console.log(
+                `👥 Membership audit completed: ${result.unauthorized} unauthorized, ${result.removed} removed`
+            );
+
+            return result;
+        } finally {
+            this.running = false;
+        }
+    }
+
+    /**
+     * Плановая проверка: отчет администраторам, если нашлись участники
+     * без подписки
+     */
+    async runScheduledAudit() {
+        const result = await this.audit(
+            MembershipService.isAutoRemoveEnabled()
+        );
+
+        if (result && result.unauthorized > 0) {
+            await this.notifyAdmins(this.formatAuditResult(result));
+        }
+
+        return result;
+    }
+
+    /**
+     * Текст отчета для администраторов
+     */
+    formatAuditResult(result: MembershipAuditResult): string {
+        const lines = [
+            `👥 Membership audit: ${result.unauthorized} member(s) without an active subscription, ${result.removed} removed`,
+        ];
+        let listed = 0;
+
+        for (const audit of result.channels) {
+            lines.push(
+                "",
+                `${audit.channel.title}: ${audit.members} known member(s), ${audit.unauthorized.length} unauthorized`
+            );
+
+            for (const member of audit.unauthorized) {
+                if (listed++ >= MAX_REPORTED_MEMBERS) break;
+
+                lines.push(
+                    `• ${member.telegramId}${
+                        member.username ? ` @${member.username}` : ""
+                    }${member.firstName ? ` ${member.firstName}` : ""}`
+                );
+            }
+        }
+
+        if (listed > MAX_REPORTED_MEMBERS) {
+            lines.push(
+                `…and ${result.unauthorized - MAX_REPORTED_MEMBERS} more`
+            );
+        }
+
+        return lines.join("\n");
+    }
+
+    private async auditChannel(
+        channel: Channel,
+        remove: boolean
+    ): Promise<ChannelAudit> {
+        const [members, subscriptions] = await Promise.all([
+            this.prisma.channelMember.findMany({
+                where: { channelId: channel.telegramChatId, isMember: true },
+            }),
+            this.prisma.subscription.findMany({
+                where: {
+                    channelId: channel.telegramChatId,
+                    status: { in: ACCESS_STATUSES },
+                },
+                include: { user: true },
+            }),
+        ]);
+
+        const subscribers = new Set(
+            subscriptions.map((s) => s.user.telegramId.toString())
+        );
+        const adminIds = new Set(getAdminIds().map(String));
+
+        const audit: ChannelAudit = {
+            channel,
+            members: members.length,
+            unauthorized: [],
+            removed: 0,
+        };
+
+        for (const member of members) {
+            const telegramId = member.telegramId.toString();
+
+            if (
+                member.isBot ||
+                STAFF_STATUSES.includes(member.status) ||
+                adminIds.has(telegramId) ||
+                subscribers.has(telegramId)
+            ) {
+                continue;
+            }
+
+            // Обновление о выходе могло потеряться — уточняем статус
+            if (!(await this.isStillMember(channel, member))) {
+                continue;
+            }
+
+            audit.unauthorized.push(member);
+
+            if (
+                remove &&
+                (await this.subscriptionService.removeFromChannel(
+                    channel.telegramChatId,
+                    Number(member.telegramId)
+                ))
+            ) {
+                audit.removed++;
+                console.log(
+                    `🚫 Removed user ${telegramId} without subscription from ${channel.title}`
+                );
+            }
+
+            // Небольшая пауза между запросами к Telegram
+            await new Promise((resolve) => setTimeout(resolve, 100));
+        }
+
+        return audit;
+    }
+
+    private async isStillMember(
+        channel: Channel,
+        member: ChannelMember
+    ): Promise<boolean> {
+        try {
+            const chatMember = await this.bot.getChatMember(
+                channel.telegramChatId,
+                Number(member.telegramId)
+            );
+
+            if (this.isMemberStatus(chatMember)) {
+                return true;
+            }
+
+            await this.prisma.channelMember.update({
+                where: { id: member.id },
+                data: {
+                    status: chatMember.status,
+                    isMember: false,
+                    leftAt: new Date(),
+                },
+            });
+            return false;
+        } catch (error) {
+            console.log(
+                `Could not check member ${member.telegramId} in ${channel.title}:`,
+                error.message
+            );
+            return true;
+        }
+    }
+
+    private isMemberStatus(member: TelegramBot.ChatMember): boolean {
+        return (
+            MEMBER_STATUSES.includes(member.status) ||
+            (member.status === "restricted" && !!member.is_member)
+        );
+    }
+
+    private async notifyAdmins(text: string) {
+        for (const adminId of getAdminIds()) {
+            try {
+                await this.bot.sendMessage(adminId, text);
+            } catch (error) {
+                console.log(
+                    `Could not notify admin ${adminId}:`,
+                    error.message
+                );
+            }
+        }
+    }
+}
@@ -1,4 +1,5 @@
 import axios, { AxiosInstance } from "axios";
+import { createHmac, timingSafeEqual } from "crypto";
 
 export interface NOWPayment {
     payment_id: string;
@@ -16,6 +17,7 @@ export interface NOWPayment {
     price_amount: number;
     price_currency: string;
     pay_amount: number;
+    actually_paid?: number;
     pay_currency: string;
     order_id: string;
     order_description: string;
@@ -32,13 +34,44 @@ export interface CreatePaymentRequest {
     pay_currency: string;
     order_id: string;
     order_description: string;
-    // purchase_id убираем - используется только для доплат
+    ipn_callback_url?: string;
+    purchase_id?: string; // Только для доплат к существующему платежу
 }
 
+export interface PaymentListParams {
+    limit?: number;
+    page?: number;
+    dateFrom?: Date;
+    dateTo?: Date;
+    sortBy?: "created_at" | "updated_at";
+    orderBy?: "asc" | "desc";
+}
+
+export interface PaymentList {
+    data: NOWPayment[];
+    limit: number;
+    page: number;
+    pagesCount: number;
+    total: number;
+}
+
+export interface NOWPaymentsCredentials {
+    email: string;
+    password: string;
+}
+
+// JWT NOWPayments действует 5 минут, обновляем заранее
+const AUTH_TOKEN_TTL = 4 * 60 * 1000;
+
 export class NOWPaymentsService {
     private api: AxiosInstance;
+    private authToken?: { token: string; fetchedAt: number };
 
-    constructor(apiKey: string) {
+    /**
+     * credentials — логин аккаунта NOWPayments, нужен только для
+     * списка платежей (NOWPAYMENTS_EMAIL, NOWPAYMENTS_PASSWORD)
+     */
+    constructor(apiKey: string, private credentials?: NOWPaymentsCredentials) {
         this.api = axios.create({
             baseURL: "https://api.nowpayments.io/v1",
             headers: {
@@ -48,6 +81,43 @@ export class NOWPaymentsService {
         });
     }
 
+    /**
+     * Проверка подписи IPN-уведомления (x-nowpayments-sig).
+     * NOWPayments подписывает HMAC-SHA512 JSON с отсортированными ключами.
+     */
+    static verifyIpnSignature(
+        payload: object,
+        signature: string,
+        ipnSecret: string
+    ): boolean {
+        const expected = createHmac("sha512", ipnSecret)
+            .update(JSON.stringify(NOWPaymentsService.sortObject(payload)))
+            .digest("hex");
+
+        const expectedBuffer = Buffer.from(expected, "hex");
+        const signatureBuffer = Buffer.from(signature, "hex");
+
+        return (
+            expectedBuffer.length === signatureBuffer.length &&
+            timingSafeEqual(expectedBuffer, signatureBuffer)
+        );
+    }
+
+    private static sortObject(value: any): any {
+        if (Array.isArray(value)) {
+            return value.map((item) => NOWPaymentsService.sortObject(item));
+        }
+        if (value === null || typeof value !== "object") {
+            return value;
+        }
+        return Object.keys(value)
+            .sort()
+            .reduce((result, key) => {
+                result[key] = NOWPaymentsService.sortObject(value[key]);
+                return result;
+            }, {} as Record<string, any>);
+    }
+
     /**
      * Создание крипто-платежа
      */
@@ -159,6 +229,27 @@ export class NOWPaymentsService {
         }
     }
 
+    /**
+     * Получение минимальной суммы для валюты в фиатном эквиваленте
+     */
+    async getMinimumPaymentAmountInFiat(
+        currency: string,
+        fiatCurrency: string = "usd"
+    ): Promise<number> {
+        try {
+            const response = await this.api.get(
+                `/min-amount?currency_from=${currency}&currency_to=${currency}&fiat_equivalent=${fiatCurrency}`
+            );
+            return response.data.fiat_equivalent;
+        } catch (error) {
+            console.error(
+                "Error getting minimum fiat amount:",
+                error.response?.data || error.message
+            );
+            throw new Error("Failed to get minimum payment amount");
+        }
+    }
+
     /**
      * Проверка доступности API
      */
@@ -176,16 +267,25 @@ export class NOWPaymentsService {
     }
 
     /**
-     * Получение списка платежей
+     * Получение списка платежей (требует авторизации аккаунта)
      */
-    async getPayments(
-        limit: number = 100,
-        page: number = 0
-    ): Promise<{ data: NOWPayment[] }> {
+    async getPayments(params: PaymentListParams = {}): Promise<PaymentList> {
+        const token = await this.getAuthToken();
+
         try {
-            const response = await this.api.get(
-                `/payment/?limit=${limit}&page=${page}`
-            );
+            const response = await this.api.get("/payment/", {
+                params: {
+                    limit: params.limit ?? 100,
+                    page: params.page ?? 0,
+                    sortBy: params.sortBy ?? "created_at",
+                    orderBy: params.orderBy ?? "desc",
+                    dateFrom: params.dateFrom?.toISOString(),
+                    dateTo: params.dateTo?.toISOString(),
+                },
+                headers: {
+                    Authorization: `Bearer ${token}`,
+                },
+            });
             return response.data;
         } catch (error) {
             console.error(
@@ -195,4 +295,35 @@ export class NOWPaymentsService {
             throw new Error("Failed to get payments list");
         }
     }
+
+    /**
+     * JWT для методов, требующих авторизации аккаунта
+     */
+    private async getAuthToken(): Promise<string> {
+        if (!this.credentials) {
+            throw new Error("NOWPayments credentials are not configured");
+        }
+
+        if (
+            this.authToken &&
+            Date.now() - this.authToken.fetchedAt < AUTH_TOKEN_TTL
+        ) {
+            return this.authToken.token;
+        }
+
+        try {
+            const response = await this.api.post("/auth", this.credentials);
+            this.authToken = {
+                token: response.data.token,
+                fetchedAt: Date.now(),
+            };
+            return this.authToken.token;
+        } catch (error) {
+            console.error(
+                "Error authenticating with NOWPayments:",
+                error.response?.data || error.message
+            );
+            throw new Error("Failed to authenticate with NOWPayments");
+        }
+    }
 }
@@ -0,0 +1,68 @@
+import {
+    PaymentEvent,
+    PaymentEventSource,
+    PaymentStatus,
+    Prisma,
+    PrismaClient,
+} from "@prisma/client";
+
+export interface PaymentEventContext {
+    source: PaymentEventSource;
+    providerStatus?: string;
+    details?: Prisma.InputJsonValue;
+}
+
+export interface PaymentEventInput extends PaymentEventContext {
+    paymentId: string;
+    fromStatus?: PaymentStatus | null;
+    toStatus?: PaymentStatus | null;
+}
+
+export class PaymentEventService {
+    constructor(private prisma: PrismaClient) {}
+
+    async record(tx: any, event: PaymentEventInput): Promise<PaymentEvent> {
+        return tx.paymentEvent.create({ data: event });
+    }
+
+    /**
+     * Условный переход статуса: платеж обновляется, только если его
+     * статус входит в from, и переход записывается в журнал. Из
+     * нескольких одновременных обработчиков переход выполнит ровно один,
+     * остальные получат false
+     */
+    async transition(
+        tx: any,
+        payment: { id: string; status: PaymentStatus },
+        from: PaymentStatus[],
+        data: Prisma.PaymentUpdateManyMutationInput & {
+            status: PaymentStatus;
+        },
+        event: PaymentEventContext
+    ): Promise<boolean> {
+        const updated = await tx.payment.updateMany({
+            where: { id: payment.id, status: { in: from } },
+            data,
+        });
+
+        if (updated.count === 0) {
+            return false;
+        }
+
+        await this.record(tx, {
+            paymentId: payment.id,
+            fromStatus: payment.status,
+            toStatus: data.status,
+            ...event,
+        });
+
+        return true;
+    }
+
+    async getPaymentEvents(paymentId: string): Promise<PaymentEvent[]> {
+        return this.prisma.paymentEvent.findMany({
+            where: { paymentId },
+            orderBy: { createdAt: "asc" },
+        });
+    }
+}
@@ -1,19 +1,99 @@
 import {
+    AutoRenewMethod,
+    BalanceEntryType,
+    Channel,
     PrismaClient,
-    PlanType,
+    PaymentEventSource,
+    PeriodSource,
     PaymentType,
     PaymentStatus,
+    RefundMethod,
+    SubscriptionStatus,
 } from "@prisma/client";
 import axios from "axios";
 import { randomUUID } from "crypto";
 import TelegramBot from "node-telegram-bot-api";
 import { NOWPaymentsService, NOWPayment } from "./NOWPaymentsService";
+import { PlanService } from "./PlanService";
+import { CouponService } from "./CouponService";
+import { ReferralService } from "./ReferralService";
+import { SubscriptionService } from "./SubscriptionService";
+import { GiftService } from "./GiftService";
+import { WalletService } from "./WalletService";
+import {
+    PaymentEventContext,
+    PaymentEventService,
+} from "./PaymentEventService";
+import { AutoRenewService } from "./AutoRenewService";
+import {
+    CryptoCurrencyInfo,
+    DEFAULT_CRYPTO_CURRENCY,
+    getConfiguredCryptoCurrencies,
+    getCryptoCurrencyInfo,
+} from "../config";
+import { getUserLocale, Locale, planName, t } from "../i18n";
+
+export interface PaymentOptions {
+    isGift?: boolean; // Покупка подарочного кода вместо своей подписки
+}
+
+// Сведения о подписке Telegram Stars из successful_payment
+export interface StarsRecurringInfo {
+    isRecurring?: boolean;
+    isFirstRecurring?: boolean;
+    expiresAt?: Date;
+    amount?: number; // Фактически списанные звезды (total_amount)
+}
+
+export interface RefundOptions {
+    reason?: string;
+    toBalance?: boolean; // Зачислить возврат на баланс вместо исходного способа
+}
+
+// Telegram поддерживает подписки Stars только с периодом 30 дней
+export const STARS_SUBSCRIPTION_PERIOD = 30 * 24 * 60 * 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Статусы, из которых платеж может быть оплачен
+const OPEN_STATUSES: PaymentStatus[] = [
+    PaymentStatus.PENDING,
+    PaymentStatus.PARTIALLY_PAID,
+];
+
+// Вручную можно завершить и истекший платеж — оплата могла прийти позже
+const MANUALLY_COMPLETABLE: PaymentStatus[] = [
+    PaymentStatus.PENDING,
+    PaymentStatus.PARTIALLY_PAID,
+    PaymentStatus.EXPIRED,
+    PaymentStatus.FAILED,
+];
+
+// Время жизни кэша валют и минимальных сумм NOWPayments
+const CURRENCIES_CACHE_TTL = 60 * 60 * 1000;
+const MIN_AMOUNT_CACHE_TTL = 10 * 60 * 1000;
 
 export class PaymentService {
     private paymentHandlers: any; // Ссылка на PaymentHandlers
+    private autoRenewService?: AutoRenewService;
     private nowPayments: NOWPaymentsService;
+    private availableCurrencies?: { codes: Set<string>; fetchedAt: number };
+    private minimumAmounts = new Map<
+        string,
+        { amount: number; fetchedAt: number }
+    >();
 
-    constructor(private prisma: PrismaClient, private bot: TelegramBot) {
+    constructor(
+        private prisma: PrismaClient,
+        private bot: TelegramBot,
+        private planService: PlanService,
+        private couponService: CouponService,
+        private referralService: ReferralService,
+        private subscriptionService: SubscriptionService,
+        private giftService: GiftService,
+        private walletService: WalletService,
+        private paymentEventService: PaymentEventService
+    ) {
         this.nowPayments = new NOWPaymentsService(
             process.env.NOWPAYMENTS_API_KEY!
         );
@@ -24,6 +104,18 @@ export class PaymentService {
         this.paymentHandlers = paymentHandlers;
     }
 
+    // AutoRenewService создается после PaymentService
+    setAutoRenewService(autoRenewService: AutoRenewService) {
+        this.autoRenewService = autoRenewService;
+    }
+
+    // Язык пользователя для текстов инвойса
+    private async getLocale(userId: string): Promise<Locale> {
+        return getUserLocale(
+            await this.prisma.user.findUnique({ where: { id: userId } })
+        );
+    }
+
     // Генерация уникального payload для избежания коллизий
     private generateUniquePayload(): string {
         return `payment_${Date.now()}_${randomUUID().slice(0, 8)}`;
@@ -33,10 +125,12 @@ export class PaymentService {
     async createTelegramStarsPayment(
         userId: string,
         telegramId: number,
-        planType: PlanType
+        planId: string,
+        options: PaymentOptions = {}
     ) {
-        const prices = this.getPlanPrices();
-        const price = prices[planType].stars;
+        const plan = await this.planService.getPurchasablePlan(planId);
+        const { starsPrice: price, starsDiscount, coupon } =
+            await this.couponService.getPlanPrice(userId, plan);
         const payload = this.generateUniquePayload();
 
         // Создаем запись о платеже в БД
@@ -45,22 +139,30 @@ export class PaymentService {
                 userId,
                 amount: price,
                 currency: "XTR", // Telegram Stars
-                planType,
+                planId: plan.id,
+                durationSeconds: plan.durationSeconds,
+                couponId: coupon?.id,
+                discountAmount: coupon ? starsDiscount : null,
                 paymentType: PaymentType.TELEGRAM_STARS,
+                isGift: !!options.isGift,
                 invoicePayload: payload,
                 expiresAt: new Date(Date.now() + 30 * 60 * 1000), // 30 минут
             },
         });
 
         // Отправляем инвойс
+        const locale = await this.getLocale(userId);
+        const name = planName(plan, locale);
         await this.bot.sendInvoice(
             telegramId,
-            `Subscription for ${this.getPlanName(planType)}`,
-            `Channel permission for ${this.getPlanName(planType)}`,
+            t(locale, options.isGift ? "invoice.giftTitle" : "invoice.title", {
+                plan: name,
+            }),
+            t(locale, "invoice.description", { plan: name }),
             payload,
             "",
             "XTR",
-            [{ label: "Subscription", amount: price }],
+            [{ label: t(locale, "invoice.label"), amount: price }],
             {
                 start_parameter: `payment_${payment.id}`,
             }
@@ -69,46 +171,236 @@ export class PaymentService {
         return payment;
     }
 
-    // Создание крипто-платежа через NOWPayments
-    async createCryptoPayment(userId: string, planType: PlanType) {
-        try {
-            const prices = this.getPlanPrices();
-            const usdAmount = prices[planType].usdt;
+    /**
+     * Ссылка на подписку Telegram Stars с автопродлением. Telegram
+     * списывает звезды каждые 30 дней, поэтому подходят только планы
+     * с таким сроком; промокоды к подписке не применяются
+     */
+    async createStarsSubscriptionLink(userId: string, planId: string) {
+        const plan = await this.planService.getPurchasablePlan(planId);
 
-            const orderId = `order_${Date.now()}_${randomUUID().slice(0, 8)}`;
+        if (plan.durationSeconds !== STARS_SUBSCRIPTION_PERIOD) {
+            throw new Error("Stars subscriptions require a 30-day plan");
+        }
 
-            // Проверяем минимальную сумму заранее
-            try {
-                const minAmount =
-                    await this.nowPayments.getMinimumPaymentAmount(
-                        "USDTTRC20",
-                        "USDTTRC20"
-                    );
-                console.log(`💰 Minimum payment amount: ${minAmount} USD`);
+        const payload = this.generateUniquePayload();
 
-                if (usdAmount < minAmount) {
-                    throw new Error(
-                        `Payment amount ${usdAmount} USD is less than minimum ${minAmount} USD`
-                    );
-                }
-            } catch (minError) {
+        await this.prisma.payment.create({
+            data: {
+                userId,
+                amount: plan.starsPrice,
+                currency: "XTR",
+                planId: plan.id,
+                durationSeconds: plan.durationSeconds,
+                paymentType: PaymentType.TELEGRAM_STARS,
+                invoicePayload: payload,
+                expiresAt: new Date(Date.now() + 30 * 60 * 1000), // 30 минут
+            },
+        });
+
+        const locale = await this.getLocale(userId);
+        const name = planName(plan, locale);
+        return this.bot.createInvoiceLink(
+            t(locale, "invoice.subscriptionTitle", { plan: name }),
+            t(locale, "invoice.subscriptionDescription", { plan: name }),
+            payload,
+            "",
+            "XTR",
+            [{ label: t(locale, "invoice.label"), amount: plan.starsPrice }],
+            { subscription_period: STARS_SUBSCRIPTION_PERIOD }
+        );
+    }
+
+    // Покупка плана с внутреннего баланса: платеж завершается сразу
+    async createBalancePayment(
+        userId: string,
+        planId: string,
+        options: PaymentOptions = {}
+    ) {
+        const plan = await this.planService.getPurchasablePlan(planId);
+        const { usdPrice, usdDiscount, coupon } =
+            await this.couponService.getPlanPrice(userId, plan);
+
+        const { payment, reward, gift } = await this.prisma.$transaction(
+            async (tx) => {
+                const payment = await tx.payment.create({
+                    data: {
+                        userId,
+                        amount: usdPrice,
+                        currency: "USD",
+                        planId: plan.id,
+                        durationSeconds: plan.durationSeconds,
+                        couponId: coupon?.id,
+                        discountAmount: coupon ? usdDiscount : null,
+                        priceAmount: usdPrice,
+                        paymentType: PaymentType.BALANCE,
+                        isGift: !!options.isGift,
+                        status: PaymentStatus.COMPLETED,
+                        expiresAt: new Date(),
+                    },
+                    include: { user: true },
+                });
+
+                await this.paymentEventService.record(tx, {
+                    paymentId: payment.id,
+                    toStatus: PaymentStatus.COMPLETED,
+                    source: PaymentEventSource.SYSTEM,
+                });
+
+                // Нехватка средств откатывает всю транзакцию
+                await this.walletService.debit(tx, {
+                    userId,
+                    type: BalanceEntryType.PURCHASE,
+                    amount: usdPrice,
+                    paymentId: payment.id,
+                    description: plan.name,
+                });
+
+                const { reward, gift } = await this.createSubscription(
+                    tx,
+                    payment
+                );
+
+                return { payment, reward, gift };
+            }
+        );
+
+        if (gift && this.paymentHandlers) {
+            await this.paymentHandlers.handleGiftPurchased(gift);
+        }
+
+        await this.notifyReferralReward(reward);
+
+        console.log(
+            `💰 Plan ${plan.name} bought from balance by user ${userId} for ${usdPrice} USD`
+        );
+
+        return { payment, gift };
+    }
+
+    // Монеты для оплаты: список администратора, доступный в NOWPayments
+    async getCryptoCurrencies(): Promise<CryptoCurrencyInfo[]> {
+        const configured = getConfiguredCryptoCurrencies();
+
+        if (
+            !this.availableCurrencies ||
+            this.availableCurrencies.fetchedAt < Date.now() - CURRENCIES_CACHE_TTL
+        ) {
+            try {
+                const currencies =
+                    await this.nowPayments.getAvailableCurrencies();
+                this.availableCurrencies = {
+                    codes: new Set(currencies.map((c) => c.toLowerCase())),
+                    fetchedAt: Date.now(),
+                };
+            } catch (error) {
                 console.log(
-                    "⚠️ Could not check minimum amount, proceeding anyway:",
-                    minError.message
+                    "⚠️ Could not load NOWPayments currencies, using configured list:",
+                    error.message
                 );
+                return configured.map(getCryptoCurrencyInfo);
+            }
+        }
+
+        return configured
+            .filter((code) => this.availableCurrencies!.codes.has(code))
+            .map(getCryptoCurrencyInfo);
+    }
+
+    // Монеты, минимальная сумма которых не превышает цену плана
+    async getCryptoCurrenciesForPlan(
+        userId: string,
+        planId: string
+    ): Promise<CryptoCurrencyInfo[]> {
+        const plan = await this.planService.getPurchasablePlan(planId);
+        const { usdPrice: usdAmount } = await this.couponService.getPlanPrice(
+            userId,
+            plan
+        );
+        const currencies = await this.getCryptoCurrencies();
+        const result: CryptoCurrencyInfo[] = [];
+
+        for (const currency of currencies) {
+            const minAmount = await this.getMinimumUsdAmount(currency.code);
+            if (minAmount === null || usdAmount >= minAmount) {
+                result.push(currency);
             }
+        }
+
+        return result;
+    }
+
+    // Минимальная сумма платежа в USD для монеты (null, если неизвестна)
+    private async getMinimumUsdAmount(
+        payCurrency: string
+    ): Promise<number | null> {
+        const cached = this.minimumAmounts.get(payCurrency);
+        if (cached && cached.fetchedAt > Date.now() - MIN_AMOUNT_CACHE_TTL) {
+            return cached.amount;
+        }
+
+        try {
+            const amount =
+                await this.nowPayments.getMinimumPaymentAmountInFiat(
+                    payCurrency,
+                    "usd"
+                );
+            this.minimumAmounts.set(payCurrency, {
+                amount,
+                fetchedAt: Date.now(),
+            });
+            return amount;
+        } catch (error) {
+            console.log(
+                `⚠️ Could not check minimum amount for ${payCurrency}:`,
+                error.message
+            );
+            return null;
+        }
+    }
+
+    // Создание крипто-платежа через NOWPayments
+    async createCryptoPayment(
+        userId: string,
+        planId: string,
+        payCurrency: string = DEFAULT_CRYPTO_CURRENCY,
+        options: PaymentOptions = {}
+    ) {
+        const plan = await this.planService.getPurchasablePlan(planId);
+        const {
+            usdPrice: usdAmount,
+            usdDiscount,
+            coupon,
+        } = await this.couponService.getPlanPrice(userId, plan);
+        const currency = getCryptoCurrencyInfo(payCurrency);
+
+        if (!getConfiguredCryptoCurrencies().includes(currency.code)) {
+            throw new Error(`Currency ${currency.code} is not allowed`);
+        }
+
+        // Проверяем минимальную сумму заранее
+        const minAmount = await this.getMinimumUsdAmount(currency.code);
+        if (minAmount !== null && usdAmount < minAmount) {
+            throw new Error(
+                `Payment amount ${usdAmount} USD is less than minimum ${minAmount} USD for ${currency.code}`
+            );
+        }
+
+        try {
+            const orderId = `order_${Date.now()}_${randomUUID().slice(0, 8)}`;
 
             // Создаем платеж в NOWPayments
-            console.log(`🔄 Creating payment for ${usdAmount} USD`);
+            console.log(
+                `🔄 Creating payment for ${usdAmount} USD in ${currency.code}`
+            );
 
             const nowPayment = await this.nowPayments.createPayment({
                 price_amount: usdAmount,
-                price_currency: "USDTTRC20",
-                pay_currency: "USDTTRC20", // Используем только USDTTRC20, так как он поддерживается
+                price_currency: "usd",
+                pay_currency: currency.code,
                 order_id: orderId,
-                order_description: `Subscription for ${this.getPlanName(
-                    planType
-                )}`,
+                order_description: `Subscription for ${plan.name}`,
+                ipn_callback_url: process.env.NOWPAYMENTS_IPN_URL || undefined,
             });
 
             // Создаем запись о платеже в нашей БД
@@ -116,12 +408,21 @@ export class PaymentService {
                 data: {
                     userId,
                     amount: nowPayment.pay_amount,
-                    currency: "USDTTRC20",
-                    planType,
-                    paymentType: PaymentType.CRYPTO_USDT,
+                    currency: currency.code,
+                    planId: plan.id,
+                    durationSeconds: plan.durationSeconds,
+                    paymentType: PaymentType.CRYPTO,
+                    isGift: !!options.isGift,
                     cryptoAddress: nowPayment.pay_address,
                     expectedAmount: nowPayment.pay_amount,
-                    cryptoTxHash: nowPayment.payment_id, // Используем payment_id как идентификатор
+                    priceAmount: usdAmount,
+                    couponId: coupon?.id,
+                    discountAmount: coupon ? usdDiscount : null,
+                    purchaseId: nowPayment.purchase_id
+                        ? String(nowPayment.purchase_id)
+                        : null,
+                    cryptoTxHash: String(nowPayment.payment_id), // Используем payment_id как идентификатор
+                    cryptoOrderId: orderId,
                     expiresAt: new Date(Date.now() + 60 * 60 * 1000), // 1 час
                 },
             });
@@ -129,9 +430,10 @@ export class PaymentService {
             return {
                 payment,
                 nowPayment,
+                currency,
                 address: nowPayment.pay_address,
                 amount: nowPayment.pay_amount,
-                paymentId: nowPayment.payment_id,
+                paymentId: String(nowPayment.payment_id),
             };
         } catch (error) {
             console.error("Error creating NOWPayments payment:", error);
@@ -139,8 +441,11 @@ export class PaymentService {
         }
     }
 
-    // Проверка статуса крипто-платежа
-    async checkCryptoPaymentStatus(paymentId: string) {
+    // Проверка статуса крипто-платежа; source — кто запросил проверку
+    async checkCryptoPaymentStatus(
+        paymentId: string,
+        source: PaymentEventSource
+    ) {
         try {
             // Получаем наш платеж из БД
             const payment = await this.prisma.payment.findUnique({
@@ -157,69 +462,559 @@ export class PaymentService {
                 paymentId
             );
 
-            let statusChanged = false;
+            return await this.applyCryptoPaymentStatus(
+                payment,
+                nowPayment,
+                source
+            );
+        } catch (error) {
+            console.error(`Error checking payment status ${paymentId}:`, error);
+            throw error;
+        }
+    }
+
+    // Обработка IPN-уведомления от NOWPayments (подпись уже проверена)
+    async handleIpnNotification(
+        nowPayment: NOWPayment,
+        source: PaymentEventSource = PaymentEventSource.IPN
+    ) {
+        const paymentId = String(nowPayment.payment_id);
+
+        const payment = await this.prisma.payment.findUnique({
+            where: { cryptoTxHash: paymentId },
+            include: { user: true },
+        });
+
+        if (!payment) {
+            console.warn(`⚠️ IPN for unknown payment: ${paymentId}`);
+            return null;
+        }
+
+        return this.applyCryptoPaymentStatus(payment, nowPayment, source);
+    }
+
+    /**
+     * Оплата, пришедшая после истечения платежа (найдена сверкой):
+     * платеж снова открывается и обрабатывается как обычное уведомление
+     */
+    async activateLatePayment(nowPayment: NOWPayment) {
+        const paymentId = String(nowPayment.payment_id);
+        const payment = await this.prisma.payment.findUnique({
+            where: { cryptoTxHash: paymentId },
+        });
+
+        const reopened =
+            payment &&
+            (await this.updateStatus(
+                payment,
+                [PaymentStatus.EXPIRED, PaymentStatus.FAILED],
+                // Новый срок — чтобы очистка не закрыла платеж до обработки
+                {
+                    status: PaymentStatus.PENDING,
+                    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+                },
+                {
+                    source: PaymentEventSource.RECONCILIATION,
+                    providerStatus: nowPayment.payment_status,
+                }
+            ));
+
+        if (!reopened) {
+            throw new Error("Payment not found or not expired");
+        }
+
+        console.log(`♻️ Reopened late crypto payment ${paymentId}`);
+        return this.handleIpnNotification(
+            nowPayment,
+            PaymentEventSource.RECONCILIATION
+        );
+    }
 
-            // Проверяем, нужно ли обновить статус
+    /**
+     * Условный переход статуса с записью в журнал платежа
+     * (см. PaymentEventService.transition)
+     */
+    private updateStatus(
+        payment: { id: string; status: PaymentStatus },
+        from: PaymentStatus[],
+        data: Parameters<PaymentEventService["transition"]>[3],
+        event: PaymentEventContext
+    ): Promise<boolean> {
+        return this.prisma.$transaction((tx) =>
+            this.paymentEventService.transition(tx, payment, from, data, event)
+        );
+    }
+
+    /**
+     * Применение статуса NOWPayments к нашему платежу. Каждое наблюдение
+     * записывается в журнал; переходы условные, поэтому одновременные
+     * проверки (IPN, опрос, /check) не выдадут подписку дважды
+     */
+    private async applyCryptoPaymentStatus(
+        payment: any,
+        nowPayment: NOWPayment,
+        source: PaymentEventSource
+    ) {
+        const paymentId = payment.cryptoTxHash;
+        const providerStatus = nowPayment.payment_status;
+        const event = { source, providerStatus };
+        let statusChanged = false;
+        let remainingAmount: number | null = null;
+
+        if (!OPEN_STATUSES.includes(payment.status)) {
             if (
-                nowPayment.payment_status === "finished" &&
-                payment.status === PaymentStatus.PENDING
+                payment.parentPaymentId &&
+                payment.status === PaymentStatus.FAILED &&
+                (await this.creditReplacedTopUp(payment, nowPayment, event))
             ) {
-                await this.prisma.$transaction(async (tx) => {
-                    // Обновляем платеж
-                    await tx.payment.update({
-                        where: { id: payment.id },
+                remainingAmount = await this.settlePartialPayment(
+                    payment.parentPaymentId,
+                    { source }
+                );
+            } else {
+                await this.recordObservation(payment, event);
+            }
+            return { payment, nowPayment, statusChanged, remainingAmount };
+        }
+
+        const actuallyPaid = Number(nowPayment.actually_paid || 0);
+
+        if (providerStatus === "finished") {
+            if (payment.parentPaymentId) {
+                // Доплата получена полностью — проверяем исходный платеж
+                statusChanged = await this.updateStatus(
+                    payment,
+                    OPEN_STATUSES,
+                    {
+                        status: PaymentStatus.COMPLETED,
+                        actuallyPaid: actuallyPaid || payment.expectedAmount,
+                    },
+                    event
+                );
+                if (statusChanged) {
+                    remainingAmount = await this.settlePartialPayment(
+                        payment.parentPaymentId,
+                        { source }
+                    );
+                }
+            } else {
+                statusChanged = await this.completePayment(
+                    payment,
+                    event,
+                    { actuallyPaid: actuallyPaid || payment.expectedAmount },
+                    actuallyPaid - Number(payment.expectedAmount)
+                );
+            }
+
+            if (statusChanged) {
+                console.log(`✅ Crypto payment completed: ${paymentId}`);
+            }
+        } else if (providerStatus === "partially_paid") {
+            // Обновляем только если пришли новые средства: из двух
+            // одновременных уведомлений о той же сумме пройдет одно
+            if (actuallyPaid > Number(payment.actuallyPaid || 0)) {
+                statusChanged = await this.prisma.$transaction(async (tx) => {
+                    const updated = await tx.payment.updateMany({
+                        where: {
+                            id: payment.id,
+                            status: { in: OPEN_STATUSES },
+                            OR: [
+                                { actuallyPaid: null },
+                                { actuallyPaid: { lt: actuallyPaid } },
+                            ],
+                        },
                         data: {
-                            status: PaymentStatus.COMPLETED,
+                            status: PaymentStatus.PARTIALLY_PAID,
+                            actuallyPaid,
                         },
                     });
 
-                    // Создаем подписку
-                    await this.createSubscription(tx, payment);
+                    if (updated.count === 0) {
+                        return false;
+                    }
+
+                    await this.paymentEventService.record(tx, {
+                        paymentId: payment.id,
+                        fromStatus: payment.status,
+                        toStatus: PaymentStatus.PARTIALLY_PAID,
+                        details: { actuallyPaid },
+                        ...event,
+                    });
+                    return true;
                 });
+            }
 
-                // Уведомляем пользователя о успешном платеже
-                if (this.paymentHandlers) {
-                    await this.paymentHandlers.handleCryptoPaymentSuccess(
-                        payment.userId
-                    );
+            if (statusChanged) {
+                remainingAmount = await this.settlePartialPayment(
+                    payment.parentPaymentId || payment.id,
+                    { source }
+                );
+                console.log(
+                    `⚠️ Crypto payment partially paid: ${paymentId} (${actuallyPaid} of ${payment.expectedAmount} ${payment.currency})`
+                );
+            }
+        } else if (
+            ["failed", "refunded", "expired"].includes(providerStatus) &&
+            payment.status === PaymentStatus.PENDING
+        ) {
+            statusChanged = await this.updateStatus(
+                payment,
+                [PaymentStatus.PENDING],
+                { status: PaymentStatus.FAILED },
+                event
+            );
+            if (statusChanged) {
+                console.log(
+                    `❌ Crypto payment failed: ${paymentId} (${providerStatus})`
+                );
+            }
+        }
+
+        if (!statusChanged) {
+            await this.recordObservation(payment, event);
+        }
+
+        return {
+            payment,
+            nowPayment,
+            statusChanged,
+            remainingAmount,
+        };
+    }
+
+    // Статус провайдера без перехода нашего статуса
+    private async recordObservation(
+        payment: { id: string; status: PaymentStatus },
+        event: PaymentEventContext
+    ) {
+        try {
+            await this.paymentEventService.record(this.prisma, {
+                paymentId: payment.id,
+                fromStatus: payment.status,
+                ...event,
+            });
+        } catch (error) {
+            console.error(
+                `Error recording event for payment ${payment.id}:`,
+                error
+            );
+        }
+    }
+
+    /**
+     * Завершение крипто-платежа (или ручное) и выдача подписки.
+     * false — платеж уже обработан другим обработчиком
+     */
+    private async completePayment(
+        payment: any,
+        event: PaymentEventContext,
+        data: {
+            actuallyPaid?: any;
+            shortfallAcceptedAt?: Date;
+            manuallyCompletedAt?: Date;
+        } = {},
+        overpaid = 0,
+        fromStatuses: PaymentStatus[] = OPEN_STATUSES
+    ): Promise<boolean> {
+        const result = await this.prisma.$transaction(
+            async (tx) => {
+                // Условное обновление не дает выдать подписку дважды
+                const completed = await this.paymentEventService.transition(
+                    tx,
+                    payment,
+                    fromStatuses,
+                    { status: PaymentStatus.COMPLETED, ...data },
+                    event
+                );
+
+                if (!completed) {
+                    return null;
                 }
 
-                statusChanged = true;
-                console.log(`✅ Crypto payment completed: ${paymentId}`);
-            } else if (
-                ["failed", "refunded", "expired"].includes(
-                    nowPayment.payment_status
-                ) &&
-                payment.status === PaymentStatus.PENDING
-            ) {
-                await this.prisma.payment.update({
-                    where: { id: payment.id },
-                    data: {
-                        status: PaymentStatus.FAILED,
-                    },
-                });
-                statusChanged = true;
+                // Переплату зачисляем на баланс по курсу этого платежа
+                const overpaidUsd =
+                    overpaid > 0 && payment.priceAmount
+                        ? Math.floor(
+                              (Number(payment.priceAmount) * overpaid * 100) /
+                                  Number(payment.expectedAmount)
+                          ) / 100
+                        : 0;
+
+                if (overpaidUsd > 0) {
+                    await this.walletService.credit(tx, {
+                        userId: payment.userId,
+                        type: BalanceEntryType.DEPOSIT,
+                        amount: overpaidUsd,
+                        paymentId: payment.id,
+                        description: `Overpayment ${overpaid} ${payment.currency}`,
+                    });
+                }
+
+                // Создаем подписку
+                return this.createSubscription(tx, payment);
+            }
+        );
+
+        if (!result) {
+            return false;
+        }
+
+        const { reward, gift } = result;
+
+        // Уведомляем пользователя о успешном платеже
+        if (this.paymentHandlers) {
+            if (gift) {
+                await this.paymentHandlers.handleGiftPurchased(gift);
+            } else {
+                await this.paymentHandlers.handleCryptoPaymentSuccess(
+                    payment.userId,
+                    payment.planId,
+                    payment.id
+                );
+            }
+        }
+
+        await this.notifyReferralReward(reward);
+        return true;
+    }
+
+    /**
+     * Сверка частично оплаченного платежа с его доплатами.
+     * Завершает платеж, если сумма покрыта, иначе выставляет доплату
+     * на недостающую сумму. Возвращает остаток к оплате.
+     */
+    private async settlePartialPayment(
+        rootPaymentId: string,
+        event: PaymentEventContext
+    ) {
+        const root = await this.prisma.payment.findUnique({
+            where: { id: rootPaymentId },
+            include: { user: true, topUps: true },
+        });
+
+        if (!root || root.status !== PaymentStatus.PARTIALLY_PAID) {
+            return null;
+        }
+
+        const received = [root, ...root.topUps].reduce(
+            (sum, p) => sum + Number(p.actuallyPaid || 0),
+            0
+        );
+        const remaining = Number(root.expectedAmount) - received;
+
+        if (remaining <= 0) {
+            if (await this.completePayment(root, event, {}, -remaining)) {
                 console.log(
-                    `❌ Crypto payment failed: ${paymentId} (${nowPayment.payment_status})`
+                    `✅ Partially paid payment covered by top-ups: ${root.cryptoTxHash}`
                 );
             }
+            return 0;
+        }
 
-            return {
+        // Доплата с уже актуальной суммой не требует пересоздания
+        const remainingAmount = Math.ceil(remaining * 1e8) / 1e8;
+        const pendingTopUp = root.topUps.find(
+            (p) => p.status === PaymentStatus.PENDING
+        );
+
+        if (
+            pendingTopUp &&
+            Number(pendingTopUp.expectedAmount) === remainingAmount
+        ) {
+            return remainingAmount;
+        }
+
+        // Заменить доплату может только один обработчик
+        if (
+            pendingTopUp &&
+            !(await this.updateStatus(
+                pendingTopUp,
+                [PaymentStatus.PENDING],
+                { status: PaymentStatus.FAILED },
+                { ...event, details: { reason: "top-up replaced" } }
+            ))
+        ) {
+            return remainingAmount;
+        }
+
+        const topUp = await this.createTopUpPayment(root, remainingAmount);
+
+        if (this.paymentHandlers) {
+            await this.paymentHandlers.handleCryptoPartialPayment(
+                root.userId,
+                {
+                    paymentId: root.id,
+                    received,
+                    topUp,
+                }
+            );
+        }
+
+        return remainingAmount;
+    }
+
+    /**
+     * Монеты, пришедшие на адрес замененной доплаты: засчитываются
+     * исходному платежу (settlePartialPayment учитывает все доплаты),
+     * а если он уже закрыт — зачисляются на баланс.
+     * false — новых средств нет
+     */
+    private async creditReplacedTopUp(
+        payment: any,
+        nowPayment: NOWPayment,
+        event: PaymentEventContext
+    ): Promise<boolean> {
+        const actuallyPaid = Number(nowPayment.actually_paid || 0);
+        const received = actuallyPaid - Number(payment.actuallyPaid || 0);
+
+        if (
+            !["finished", "partially_paid"].includes(
+                nowPayment.payment_status
+            ) ||
+            received <= 0
+        ) {
+            return false;
+        }
+
+        const credited = await this.prisma.$transaction(async (tx) => {
+            const updated = await tx.payment.updateMany({
+                where: {
+                    id: payment.id,
+                    status: PaymentStatus.FAILED,
+                    OR: [
+                        { actuallyPaid: null },
+                        { actuallyPaid: { lt: actuallyPaid } },
+                    ],
+                },
+                data: { actuallyPaid },
+            });
+
+            if (updated.count === 0) {
+                return null;
+            }
+
+            await this.paymentEventService.record(tx, {
+                paymentId: payment.id,
+                fromStatus: payment.status,
+                details: { actuallyPaid, reason: "replaced top-up paid" },
+                ...event,
+            });
+
+            const root = await tx.payment.findUnique({
+                where: { id: payment.parentPaymentId },
+            });
+
+            if (root.status === PaymentStatus.PARTIALLY_PAID) {
+                return 0;
+            }
+
+            // По курсу исходного платежа, как переплата
+            const usd =
+                Math.floor(
+                    (Number(root.priceAmount || 0) * received * 100) /
+                        Number(root.expectedAmount)
+                ) / 100;
+
+            if (usd > 0) {
+                await this.walletService.credit(tx, {
+                    userId: payment.userId,
+                    type: BalanceEntryType.DEPOSIT,
+                    amount: usd,
+                    paymentId: payment.id,
+                    description: `Late top-up ${received} ${payment.currency}`,
+                });
+            }
+            return usd;
+        });
+
+        if (credited === null) {
+            return false;
+        }
+
+        console.log(
+            `♻️ Funds on replaced top-up ${payment.cryptoTxHash}: ${received} ${payment.currency}${
+                credited > 0 ? `, $${credited} credited to balance` : ""
+            }`
+        );
+        return true;
+    }
+
+    // Создание доплаты к частично оплаченному платежу
+    private async createTopUpPayment(root: any, amount: number) {
+        const orderId = `topup_${Date.now()}_${randomUUID().slice(0, 8)}`;
+        const nowPayment = await this.nowPayments.createPayment({
+            price_amount: amount,
+            price_currency: root.currency,
+            pay_currency: root.currency,
+            order_id: orderId,
+            order_description: `Top-up for payment ${root.cryptoTxHash}`,
+            ipn_callback_url: process.env.NOWPAYMENTS_IPN_URL || undefined,
+            purchase_id: root.purchaseId || undefined,
+        });
+
+        return this.prisma.payment.create({
+            data: {
+                userId: root.userId,
+                amount: nowPayment.pay_amount,
+                currency: root.currency,
+                planId: root.planId,
+                durationSeconds: root.durationSeconds,
+                paymentType: PaymentType.CRYPTO,
+                cryptoAddress: nowPayment.pay_address,
+                expectedAmount: nowPayment.pay_amount,
+                cryptoTxHash: String(nowPayment.payment_id),
+                cryptoOrderId: orderId,
+                purchaseId: nowPayment.purchase_id
+                    ? String(nowPayment.purchase_id)
+                    : root.purchaseId,
+                parentPaymentId: root.id,
+                expiresAt: new Date(Date.now() + 60 * 60 * 1000), // 1 час
+            },
+        });
+    }
+
+    // Администратор принимает недоплату и выдает подписку
+    async acceptPartialPayment(paymentId: string) {
+        const payment = await this.prisma.payment.findFirst({
+            where: {
+                OR: [{ id: paymentId }, { cryptoTxHash: paymentId }],
+            },
+            include: { user: true },
+        });
+
+        if (
+            !payment ||
+            payment.status !== PaymentStatus.PARTIALLY_PAID ||
+            !(await this.completePayment(
                 payment,
-                nowPayment,
-                statusChanged,
-            };
-        } catch (error) {
-            console.error(`Error checking payment status ${paymentId}:`, error);
-            throw error;
+                { source: PaymentEventSource.ADMIN },
+                { shortfallAcceptedAt: new Date() },
+                0,
+                [PaymentStatus.PARTIALLY_PAID]
+            ))
+        ) {
+            throw new Error("Payment not found or not partially paid");
         }
+
+        console.log(`✅ Shortfall accepted for payment ${payment.id}`);
+        return payment;
     }
 
     // Обработка успешного платежа звездами
     async handleTelegramStarsSuccess(
         payload: string,
-        telegramPaymentChargeId: string
+        telegramPaymentChargeId: string,
+        recurring: StarsRecurringInfo = {}
     ) {
+        // Очередное списание по подписке: исходный платеж уже завершен
+        if (recurring.isRecurring && !recurring.isFirstRecurring) {
+            return this.handleStarsRenewal(
+                payload,
+                telegramPaymentChargeId,
+                recurring
+            );
+        }
+
         const payment = await this.prisma.payment.findUnique({
             where: { invoicePayload: payload },
             include: { user: true },
@@ -230,25 +1025,128 @@ export class PaymentService {
         }
 
         // Атомарное обновление статуса и создание подписки
-        await this.prisma.$transaction(async (tx) => {
-            // Обновляем платеж
-            await tx.payment.update({
-                where: { id: payment.id },
+        const { reward, gift } = await this.prisma.$transaction(async (tx) => {
+            // Повторное successful_payment не выдаст подписку второй раз
+            const completed = await this.paymentEventService.transition(
+                tx,
+                payment,
+                [PaymentStatus.PENDING],
+                { status: PaymentStatus.COMPLETED, telegramPaymentChargeId },
+                { source: PaymentEventSource.TELEGRAM }
+            );
+
+            if (!completed) {
+                throw new Error("Payment not found or already processed");
+            }
+
+            // Первый платеж подписки Stars включает автопродление
+            if (recurring.isFirstRecurring) {
+                const starsRenewal = {
+                    method: AutoRenewMethod.TELEGRAM_STARS,
+                    isActive: true,
+                    invoicePayload: payload,
+                    telegramPaymentChargeId,
+                    expiresAt: recurring.expiresAt,
+                    failureNotifiedAt: null,
+                    cancelledAt: null,
+                };
+
+                await tx.autoRenewal.upsert({
+                    where: {
+                        userId_planId: {
+                            userId: payment.userId,
+                            planId: payment.planId,
+                        },
+                    },
+                    create: {
+                        userId: payment.userId,
+                        planId: payment.planId,
+                        ...starsRenewal,
+                    },
+                    update: starsRenewal,
+                });
+            }
+
+            // Создаем подписку
+            return this.createSubscription(tx, payment);
+        });
+
+        if (gift && this.paymentHandlers) {
+            await this.paymentHandlers.handleGiftPurchased(gift);
+        }
+
+        await this.notifyReferralReward(reward);
+
+        return payment;
+    }
+
+    // Продление по подписке Telegram Stars: новый платеж на каждое списание
+    private async handleStarsRenewal(
+        payload: string,
+        telegramPaymentChargeId: string,
+        recurring: StarsRecurringInfo
+    ) {
+        const renewal = await this.prisma.autoRenewal.findUnique({
+            where: { invoicePayload: payload },
+            include: { plan: true, user: true },
+        });
+
+        if (!renewal) {
+            throw new Error("Stars subscription not found");
+        }
+
+        // Автопродление отменено, а списание прошло (отмена в Telegram
+        // не удалась) — звезды возвращаются, доступ не продлевается
+        if (!renewal.isActive) {
+            console.warn(
+                `⚠️ Charge ${telegramPaymentChargeId} for cancelled Stars subscription ${renewal.id}`
+            );
+            await this.refundStarPayment(
+                `${renewal.user.telegramId}`,
+                telegramPaymentChargeId
+            );
+            throw new Error("Stars subscription is cancelled");
+        }
+
+        const payment = await this.prisma.$transaction(async (tx) => {
+            const payment = await tx.payment.create({
                 data: {
+                    userId: renewal.userId,
+                    amount: recurring.amount ?? renewal.plan.starsPrice,
+                    currency: "XTR",
+                    planId: renewal.planId,
+                    durationSeconds: STARS_SUBSCRIPTION_PERIOD,
+                    paymentType: PaymentType.TELEGRAM_STARS,
                     status: PaymentStatus.COMPLETED,
                     telegramPaymentChargeId,
+                    expiresAt: new Date(),
+                },
+                include: { user: true },
+            });
+
+            await this.paymentEventService.record(tx, {
+                paymentId: payment.id,
+                toStatus: PaymentStatus.COMPLETED,
+                source: PaymentEventSource.TELEGRAM,
+                details: { recurring: true },
+            });
+
+            await tx.autoRenewal.update({
+                where: { id: renewal.id },
+                data: {
+                    expiresAt: recurring.expiresAt,
+                    failureNotifiedAt: null,
                 },
             });
 
-            // Создаем подписку
             await this.createSubscription(tx, payment);
+            return payment;
         });
 
-        // TODO TEST
-        // await this.refundStarPayment(
-        //     `${payment.user.telegramId}`,
-        //     telegramPaymentChargeId
-        // );
+        console.log(
+            `🔁 Stars subscription renewed: plan ${renewal.plan.name}, user ${renewal.userId}`
+        );
+
         return payment;
     }
 
@@ -282,137 +1180,405 @@ export class PaymentService {
         }
     }
 
-    private async createSubscription(tx: any, payment: any) {
-        const duration = this.getPlanDuration(payment.planType);
-        const channelId = process.env.CHANNEL_ID!;
+    // Возврат платежа администратором с отзывом оплаченного времени
+    async refundPayment(
+        paymentId: string,
+        adminTelegramId: number,
+        options: RefundOptions = {}
+    ) {
+        const { reason } = options;
+        const payment = await this.prisma.payment.findFirst({
+            where: {
+                OR: [{ id: paymentId }, { cryptoTxHash: paymentId }],
+            },
+            include: { user: true, plan: true },
+        });
 
-        try {
-            await this.bot.unbanChatMember(
-                channelId,
-                payment.user.telegramId as any
+        if (!payment || payment.status !== PaymentStatus.COMPLETED) {
+            throw new Error("Payment not found or not completed");
+        }
+
+        let method: RefundMethod;
+
+        // Покупки с баланса всегда возвращаются на баланс
+        if (
+            options.toBalance ||
+            payment.paymentType === PaymentType.BALANCE
+        ) {
+            method = RefundMethod.BALANCE;
+        } else if (payment.paymentType === PaymentType.TELEGRAM_STARS) {
+            method = RefundMethod.TELEGRAM_STARS;
+        } else {
+            // Крипто-возврат администратор отправляет вручную
+            method = RefundMethod.MANUAL;
+        }
+
+        const event = {
+            source: PaymentEventSource.ADMIN,
+            details: { method, adminTelegramId },
+        };
+
+        // Звезды возвращаются вне транзакции, поэтому платеж сначала
+        // забирается переходом в REFUNDED: повторный /refund не вернет
+        // звезды дважды. Если API откажет — платеж возвращается в COMPLETED
+        if (method === RefundMethod.TELEGRAM_STARS) {
+            if (
+                !(await this.updateStatus(
+                    payment,
+                    [PaymentStatus.COMPLETED],
+                    { status: PaymentStatus.REFUNDED },
+                    event
+                ))
+            ) {
+                throw new Error("Payment not found or not completed");
+            }
+
+            const refunded = await this.refundStarPayment(
+                `${payment.user.telegramId}`,
+                payment.telegramPaymentChargeId!
             );
-        } catch (error) {
-            console.log(
-                "User was not banned or error unbanning:",
-                error.message
+
+            if (!refunded) {
+                await this.updateStatus(
+                    { id: payment.id, status: PaymentStatus.REFUNDED },
+                    [PaymentStatus.REFUNDED],
+                    { status: PaymentStatus.COMPLETED },
+                    {
+                        source: PaymentEventSource.ADMIN,
+                        details: { error: "Telegram Stars refund failed" },
+                    }
+                );
+                throw new Error("Telegram Stars refund failed");
+            }
+        }
+
+        const { refund, subscriptions } = await this.prisma.$transaction(
+            async (tx) => {
+                const refunded =
+                    method === RefundMethod.TELEGRAM_STARS ||
+                    (await this.paymentEventService.transition(
+                        tx,
+                        payment,
+                        [PaymentStatus.COMPLETED],
+                        { status: PaymentStatus.REFUNDED },
+                        event
+                    ));
+
+                if (!refunded) {
+                    throw new Error("Payment not found or not completed");
+                }
+
+                const balanceAmount =
+                    method === RefundMethod.BALANCE
+                        ? this.getPaymentUsdValue(payment)
+                        : null;
+
+                const refund = await tx.refund.create({
+                    data: {
+                        paymentId: payment.id,
+                        method,
+                        amount: balanceAmount ?? payment.amount,
+                        currency:
+                            balanceAmount !== null ? "USD" : payment.currency,
+                        reason,
+                        adminTelegramId: BigInt(adminTelegramId),
+                    },
+                });
+
+                if (balanceAmount !== null) {
+                    await this.walletService.credit(tx, {
+                        userId: payment.userId,
+                        type: BalanceEntryType.REFUND,
+                        amount: balanceAmount,
+                        paymentId: payment.id,
+                        adminTelegramId,
+                        description: reason,
+                    });
+                }
+
+                const subscriptions = payment.isGift
+                    ? await this.giftService.revokeGift(tx, payment)
+                    : await this.subscriptionService.revokePaymentTime(
+                          tx,
+                          payment
+                      );
+
+                return { refund, subscriptions };
+            }
+        ).catch(async (error) => {
+            // Звезды уже вернулись — помечаем платеж для ручного разбора
+            if (method === RefundMethod.TELEGRAM_STARS) {
+                console.error(
+                    `❌ Stars for payment ${payment.id} were refunded, but the refund was not recorded:`,
+                    error
+                );
+                await this.paymentEventService.record(this.prisma, {
+                    paymentId: payment.id,
+                    source: PaymentEventSource.ADMIN,
+                    details: {
+                        error: `Stars refunded, refund not recorded: ${error.message}`,
+                    },
+                });
+            }
+            throw error;
+        });
+
+        // Возвращенный план не продлевается, подписка Stars отменяется
+        if (!payment.isGift && this.autoRenewService) {
+            try {
+                await this.autoRenewService.cancelForPlan(
+                    payment.userId,
+                    payment.planId
+                );
+            } catch (error) {
+                console.error(
+                    `Error cancelling auto-renew after refund of ${payment.id}:`,
+                    error
+                );
+            }
+        }
+
+        // Убираем из каналов, где оплаченного времени не осталось
+        for (const subscription of subscriptions) {
+            if (subscription.status !== SubscriptionStatus.REVOKED) continue;
+
+            await this.subscriptionService.removeFromChannel(
+                subscription.channelId,
+                Number(subscription.user.telegramId)
             );
         }
 
-        // Ищем существующую активную подписку пользователя
-        const existingSubscription = await tx.subscription.findFirst({
+        console.log(
+            `💸 Payment ${payment.id} refunded (${method}) by admin ${adminTelegramId}: ${
+                reason || "no reason"
+            }`
+        );
+
+        return { payment, refund, subscriptions };
+    }
+
+    /**
+     * Ручное завершение ожидающего или истекшего платежа (оплата получена вне бота):
+     * подписка и уведомления — как при обычной оплате
+     */
+    async completePaymentManually(
+        paymentId: string,
+        source: PaymentEventSource = PaymentEventSource.ADMIN
+    ) {
+        const payment = await this.prisma.payment.findFirst({
             where: {
-                userId: payment.userId,
-                channelId: channelId,
-                isActive: true,
-                endDate: { gte: new Date() }, // Подписка еще действует
-            },
-            orderBy: {
-                endDate: "desc", // Берем самую позднюю подписку
+                OR: [{ id: paymentId }, { cryptoTxHash: paymentId }],
             },
+            include: { user: true },
         });
 
-        let startDate: Date;
-        let endDate: Date;
-        let subscription: any;
+        if (
+            !payment ||
+            !MANUALLY_COMPLETABLE.includes(payment.status) ||
+            !(await this.completePayment(
+                payment,
+                { source },
+                { manuallyCompletedAt: new Date() },
+                0,
+                MANUALLY_COMPLETABLE
+            ))
+        ) {
+            throw new Error("Payment not found or already processed");
+        }
 
-        if (existingSubscription) {
-            // ПРОДЛЕНИЕ: начинаем с окончания текущей подписки
-            startDate = existingSubscription.endDate;
-            endDate = new Date(startDate.getTime() + duration);
+        console.log(`✅ Payment ${payment.id} completed manually`);
+        return payment;
+    }
 
-            // Обновляем существующую подписку
-            subscription = await tx.subscription.update({
-                where: { id: existingSubscription.id },
-                data: {
-                    endDate: endDate,
-                    planType: payment.planType, // Обновляем план на новый
-                },
-            });
+    /**
+     * Бонусный доступ к каналу без оплаты
+     */
+    async grantAccess(userId: string, channel: Channel, days: number) {
+        const user = await this.prisma.user.findUnique({
+            where: { id: userId },
+        });
 
-            console.log(
-                `🔄 Subscription extended for user ${
-                    payment.userId
-                }: ${existingSubscription.endDate.toISOString()} → ${endDate.toISOString()}`
-            );
-        } else {
-            // НОВАЯ ПОДПИСКА: начинаем с текущего момента
-            startDate = new Date();
-            endDate = new Date(startDate.getTime() + duration);
+        if (!user) {
+            throw new Error("User not found");
+        }
 
-            subscription = await tx.subscription.create({
-                data: {
-                    userId: payment.userId,
-                    channelId: channelId,
-                    planType: payment.planType,
-                    startDate,
-                    endDate,
-                    paymentId: payment.id,
-                },
-            });
+        const subscriptions = await this.prisma.$transaction((tx) =>
+            this.subscriptionService.grantAccess(tx, {
+                userId: user.id,
+                planId: null,
+                duration: days * DAY_MS,
+                source: PeriodSource.ADMIN,
+                channelIds: [channel.telegramChatId],
+            })
+        );
 
-            console.log(
-                `✨ New subscription created for user ${
-                    payment.userId
-                }: ${startDate.toISOString()} → ${endDate.toISOString()}`
+        if (this.paymentHandlers) {
+            await this.paymentHandlers.handleAccessChanged(
+                user,
+                "admin.granted",
+                { days, channel: channel.title },
+                [channel]
             );
         }
 
-        return subscription;
+        return subscriptions;
     }
 
-    // Очистка просроченных платежей
-    async cleanupExpiredPayments() {
-        await this.prisma.payment.updateMany({
-            where: {
-                status: PaymentStatus.PENDING,
-                expiresAt: { lt: new Date() },
-            },
-            data: {
-                status: PaymentStatus.EXPIRED,
-            },
+    /**
+     * Продление действующих подписок (во всех каналах или в одном)
+     */
+    async extendAccess(userId: string, days: number, channel?: Channel) {
+        const subscriptions = await this.subscriptionService.extendAccess(
+            userId,
+            days * DAY_MS,
+            channel?.telegramChatId
+        );
+        const user = await this.prisma.user.findUnique({
+            where: { id: userId },
         });
+
+        if (user && subscriptions.length > 0 && this.paymentHandlers) {
+            await this.paymentHandlers.handleAccessChanged(
+                user,
+                "admin.extended",
+                { days }
+            );
+        }
+
+        return subscriptions;
     }
 
-    getPlanPrices() {
-        // const prices = {
-        //     [PlanType.DAY]: { stars: 1, usdt: 21 },
-        //     [PlanType.WEEK]: { stars: 1, usdt: 30 },
-        //     [PlanType.MONTH]: { stars: 1, usdt: 61 },
-        // };
+    /**
+     * Досрочное прекращение доступа (во всех каналах или в одном)
+     */
+    async revokeAccess(userId: string, channel?: Channel) {
+        const subscriptions = await this.subscriptionService.revokeAccess(
+            userId,
+            channel?.telegramChatId
+        );
 
-        // TODO Продакшн цены:
-        const prices = {
-            [PlanType.DAY]: { stars: 399, usdt: 21 },
-            [PlanType.WEEK]: { stars: 599, usdt: 30 },
-            [PlanType.MONTH]: { stars: 2500, usdt: 61 },
-        };
+        if (subscriptions.length > 0 && this.paymentHandlers) {
+            await this.paymentHandlers.handleAccessChanged(
+                subscriptions[0].user,
+                "admin.revoked"
+            );
+        }
 
-        return prices;
+        return subscriptions;
     }
 
-    getPlanDuration(planType: PlanType): number {
-        const durations = {
-            [PlanType.DAY]: 24 * 60 * 60 * 1000,
-            [PlanType.WEEK]: 7 * 24 * 60 * 60 * 1000,
-            [PlanType.MONTH]: 30 * 24 * 60 * 60 * 1000,
-        };
+    /**
+     * Стоимость платежа в USD: цена в USD для крипто и баланса,
+     * для звезд — пересчет по соотношению цен плана
+     */
+    private getPaymentUsdValue(payment: any): number {
+        if (payment.priceAmount) {
+            return Number(payment.priceAmount);
+        }
+
+        return (
+            Math.floor(
+                (Number(payment.plan.usdPrice) * Number(payment.amount) * 100) /
+                    payment.plan.starsPrice
+            ) / 100
+        );
+    }
+
+    private async createSubscription(tx: any, payment: any) {
+        // Промокод израсходован — снимаем его с пользователя
+        if (payment.couponId) {
+            await tx.user.updateMany({
+                where: { id: payment.userId, couponId: payment.couponId },
+                data: { couponId: null },
+            });
+        }
+
+        // Подарок: выпускаем код вместо продления подписки покупателя
+        let subscriptions = [];
+        let gift = null;
 
-        // TODO - test data
-        // const durations = {
-        //     [PlanType.DAY]: 60 * 5 * 1000,
-        //     [PlanType.WEEK]: 60 * 10 * 1000,
-        //     [PlanType.MONTH]: 60 * 15 * 1000,
-        // };
+        if (payment.isGift) {
+            gift = await this.giftService.createGift(tx, payment);
+        } else {
+            subscriptions = await this.subscriptionService.grantAccess(tx, {
+                userId: payment.userId,
+                planId: payment.planId,
+                duration: payment.durationSeconds * 1000,
+                source: PeriodSource.PAYMENT,
+                paymentId: payment.id,
+            });
+        }
 
-        return durations[planType];
+        // Бонус пригласившему за первую оплату
+        const reward = await this.referralService.recordReward(tx, payment);
+        if (reward?.bonusDays > 0) {
+            // Бонусные дни начисляются в каналах купленного плана
+            await this.subscriptionService.grantAccess(tx, {
+                userId: reward.referrer.id,
+                planId: null,
+                duration: reward.bonusDays * 24 * 60 * 60 * 1000,
+                source: PeriodSource.REFERRAL,
+                paymentId: payment.id,
+                channelIds: await this.subscriptionService.getPlanChatIds(
+                    payment.planId,
+                    tx
+                ),
+            });
+        }
+
+        // Бонус на баланс пригласившему
+        if (reward?.bonusUsd > 0) {
+            await this.walletService.credit(tx, {
+                userId: reward.referrer.id,
+                type: BalanceEntryType.BONUS,
+                amount: reward.bonusUsd,
+                paymentId: payment.id,
+                description: "Referral bonus",
+            });
+        }
+
+        return { subscriptions, reward, gift };
     }
 
-    getPlanName(planType: PlanType): string {
-        const names = {
-            [PlanType.DAY]: "day",
-            [PlanType.WEEK]: "week",
-            [PlanType.MONTH]: "month",
-        };
-        return names[planType];
+    // Уведомление пригласившего о начисленном бонусе (после коммита транзакции)
+    private async notifyReferralReward(
+        reward: { referrer: any; bonusDays: number; bonusUsd: number } | null
+    ) {
+        if (!reward || !this.paymentHandlers) return;
+
+        await this.paymentHandlers.handleReferralReward(
+            reward.referrer.telegramId,
+            reward.bonusDays,
+            reward.bonusUsd
+        );
+    }
+
+    /**
+     * Истечение неоплаченных платежей; возвращает число истекших
+     */
+    async cleanupExpiredPayments(): Promise<number> {
+        const payments = await this.prisma.payment.findMany({
+            where: {
+                status: PaymentStatus.PENDING,
+                expiresAt: { lt: new Date() },
+            },
+            select: { id: true, status: true },
+        });
+
+        let expired = 0;
+        for (const payment of payments) {
+            if (
+                await this.updateStatus(
+                    payment,
+                    [PaymentStatus.PENDING],
+                    { status: PaymentStatus.EXPIRED },
+                    { source: PaymentEventSource.CLEANUP }
+                )
+            ) {
+                expired++;
+            }
+        }
+
+        return expired;
     }
 }
@@ -0,0 +1,141 @@
+import { PrismaClient, Plan, Prisma } from "@prisma/client";
+
+export type PlanWithChannels = Prisma.PlanGetPayload<{
+    include: { channels: { include: { channel: true } } };
+}>;
+
+export interface PlanInput {
+    name: string;
+    durationSeconds: number;
+    starsPrice: number;
+    usdPrice: number;
+    sortOrder?: number;
+}
+
+// Единицы длительности для команд администратора (30d, 12h, 15m)
+const DURATION_UNITS: Record<string, number> = {
+    m: 60,
+    h: 60 * 60,
+    d: 24 * 60 * 60,
+};
+
+export class PlanService {
+    constructor(private prisma: PrismaClient) {}
+
+    /**
+     * Планы, доступные для покупки, в порядке отображения.
+     * С channelId — только планы и пакеты, включающие этот канал
+     */
+    async getActivePlans(channelId?: string): Promise<PlanWithChannels[]> {
+        return this.prisma.plan.findMany({
+            where: {
+                isActive: true,
+                ...(channelId ? { channels: { some: { channelId } } } : {}),
+            },
+            include: { channels: { include: { channel: true } } },
+            orderBy: [{ sortOrder: "asc" }, { createdAt: "asc" }],
+        });
+    }
+
+    /**
+     * Все планы, включая скрытые
+     */
+    async getAllPlans(): Promise<PlanWithChannels[]> {
+        return this.prisma.plan.findMany({
+            include: { channels: { include: { channel: true } } },
+            orderBy: [{ sortOrder: "asc" }, { createdAt: "asc" }],
+        });
+    }
+
+    /**
+     * Пакеты — активные планы сразу на несколько каналов
+     */
+    async getActiveBundles(): Promise<PlanWithChannels[]> {
+        const plans = await this.getActivePlans();
+        return plans.filter((plan) => plan.channels.length > 1);
+    }
+
+    async getPlan(planId: string): Promise<Plan | null> {
+        return this.prisma.plan.findUnique({ where: { id: planId } });
+    }
+
+    /**
+     * План, доступный для покупки (скрытые планы и планы без каналов
+     * купить нельзя)
+     */
+    async getPurchasablePlan(planId: string): Promise<Plan> {
+        const plan = await this.prisma.plan.findUnique({
+            where: { id: planId },
+            include: { channels: true },
+        });
+
+        if (!plan || !plan.isActive || plan.channels.length === 0) {
+            throw new Error("Plan not found or not available");
+        }
+
+        return plan;
+    }
+
+    async createPlan(data: PlanInput): Promise<Plan> {
+        return this.prisma.plan.create({ data });
+    }
+
+    async updatePlan(planId: string, data: Partial<PlanInput>): Promise<Plan> {
+        return this.prisma.plan.update({ where: { id: planId }, data });
+    }
+
+    /**
+     * Перевод названия плана на язык пользователя
+     */
+    async setPlanNameTranslation(
+        planId: string,
+        locale: string,
+        name: string
+    ): Promise<Plan> {
+        const plan = await this.prisma.plan.findUnique({
+            where: { id: planId },
+        });
+
+        if (!plan) {
+            throw new Error("Plan not found");
+        }
+
+        const translations = {
+            ...((plan.nameTranslations || {}) as Record<string, string>),
+            [locale]: name,
+        };
+
+        return this.prisma.plan.update({
+            where: { id: planId },
+            data: { nameTranslations: translations },
+        });
+    }
+
+    async setPlanActive(planId: string, isActive: boolean): Promise<Plan> {
+        return this.prisma.plan.update({
+            where: { id: planId },
+            data: { isActive },
+        });
+    }
+
+    /**
+     * Разбор длительности вида 30d / 12h / 15m в секунды
+     */
+    static parseDuration(value: string): number | null {
+        const match = /^(\d+)([mhd])$/i.exec(value.trim());
+        if (!match) return null;
+
+        const seconds =
+            parseInt(match[1], 10) * DURATION_UNITS[match[2].toLowerCase()];
+        return seconds > 0 ? seconds : null;
+    }
+
+    static formatDuration(seconds: number): string {
+        for (const unit of ["d", "h", "m"]) {
+            if (seconds % DURATION_UNITS[unit] === 0) {
+                return `${seconds / DURATION_UNITS[unit]}${unit}`;
+            }
+        }
+        return `${seconds}s`;
+    }
+}
@@ -0,0 +1,332 @@
+import {
+    Payment,
+    PaymentEventSource,
+    PaymentStatus,
+    PrismaClient,
+} from "@prisma/client";
+import TelegramBot from "node-telegram-bot-api";
+import { NOWPayment, NOWPaymentsService } from "./NOWPaymentsService";
+import { PaymentService } from "./PaymentService";
+import { PaymentEventService } from "./PaymentEventService";
+import { getAdminIds } from "../config";
+
+export interface ReconciliationResult {
+    checked: number;
+    updated: number;
+    activated: number;
+    issues: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAGE_SIZE = 100;
+
+// Расхождение сумм, которое не считается ошибкой (округление)
+const AMOUNT_TOLERANCE = 1e-8;
+
+// Сколько расхождений перечислять в сообщении администраторам
+const MAX_REPORTED_ISSUES = 20;
+
+const OPEN_STATUSES: PaymentStatus[] = [
+    PaymentStatus.PENDING,
+    PaymentStatus.PARTIALLY_PAID,
+];
+const CLOSED_STATUSES: PaymentStatus[] = [
+    PaymentStatus.EXPIRED,
+    PaymentStatus.FAILED,
+];
+
+export class ReconciliationService {
+    private running = false;
+
+    // Платежи NOWPayments без локальной записи, о которых уже сообщили
+    private reportedUnknown = new Set<string>();
+
+    constructor(
+        private prisma: PrismaClient,
+        private bot: TelegramBot,
+        private paymentService: PaymentService,
+        private nowPayments: NOWPaymentsService,
+        private paymentEventService: PaymentEventService
+    ) {}
+
+    /**
+     * За сколько дней сверять платежи (RECONCILE_DAYS)
+     */
+    static getWindowDays(): number {
+        return parseInt(process.env.RECONCILE_DAYS || "3", 10) || 3;
+    }
+
+    /**
+     * Активировать ли оплаты, пришедшие после истечения платежа
+     * (RECONCILE_AUTO_ACTIVATE=true); иначе только уведомление
+     */
+    static isAutoActivateEnabled(): boolean {
+        return process.env.RECONCILE_AUTO_ACTIVATE === "true";
+    }
+
+    /**
+     * Сверка списка платежей NOWPayments с таблицей payments:
+     * пропущенные статусы применяются, расхождения отправляются
+     * администраторам
+     */
+    async reconcile(): Promise<ReconciliationResult | null> {
+        if (this.running) {
+            console.log("⏭️ Reconciliation is already running");
+            return null;
+        }
+
+        this.running = true;
+        const result: ReconciliationResult = {
+            checked: 0,
+            updated: 0,
+            activated: 0,
+            issues: [],
+        };
+
+        try {
+            const dateFrom = new Date(
+                Date.now() - ReconciliationService.getWindowDays() * DAY_MS
+            );
+
+            for (let page = 0; ; page++) {
+                const list = await this.nowPayments.getPayments({
+                    limit: PAGE_SIZE,
+                    page,
+                    dateFrom,
+                });
+
+                for (const nowPayment of list.data) {
+                    try {
+                        await this.reconcilePayment(nowPayment, result);
+                    } catch (error) {
+                        result.issues.push(
+                            `${nowPayment.payment_id}: check failed (${error.message})`
+                        );
+                    }
+                    result.checked++;
+                }
+
+                if (page + 1 >= list.pagesCount || list.data.length === 0) {
+                    break;
+                }
+
+                // Пауза между страницами, чтобы не нагружать API
+                await this.sleep(500);
+            }
+
+            console.log(
+                `🔍 Reconciliation completed: ${result.checked} checked, ${result.updated} updated, ${result.activated} activated, ${result.issues.length} issue(s)`
+            );
+
+            if (result.issues.length > 0 || result.activated > 0) {
+                await this.notifyAdmins(result);
+            }
+
+            return result;
+        } finally {
+            this.running = false;
+        }
+    }
+
+    private async reconcilePayment(
+        nowPayment: NOWPayment,
+        result: ReconciliationResult
+    ) {
+        const paymentId = String(nowPayment.payment_id);
+        const label = `${paymentId} (${nowPayment.order_id || "no order"})`;
+        const status = nowPayment.payment_status;
+
+        const payment = await this.prisma.payment.findFirst({
+            where: {
+                OR: [
+                    { cryptoTxHash: paymentId },
+                    ...(nowPayment.order_id
+                        ? [{ cryptoOrderId: nowPayment.order_id }]
+                        : []),
+                ],
+            },
+        });
+
+        if (!payment) {
+            if (
+                (status === "finished" || status === "partially_paid") &&
+                !this.reportedUnknown.has(`${paymentId}:${status}`)
+            ) {
+                this.reportedUnknown.add(`${paymentId}:${status}`);
+                result.issues.push(
+                    `${label}: ${status} in NOWPayments, unknown locally (${nowPayment.actually_paid ?? 0} ${nowPayment.pay_currency})`
+                );
+            }
+            return;
+        }
+
+        if (payment.cryptoTxHash !== paymentId) {
+            await this.flag(
+                result,
+                payment,
+                nowPayment,
+                `order_mismatch:${paymentId}`,
+                `${label}: order matches local payment ${payment.id} with another payment_id ${payment.cryptoTxHash}`
+            );
+            return;
+        }
+
+        // Пропущенное уведомление по открытому платежу — применяем
+        if (OPEN_STATUSES.includes(payment.status)) {
+            const applied = await this.paymentService.handleIpnNotification(
+                nowPayment,
+                PaymentEventSource.RECONCILIATION
+            );
+            if (applied?.statusChanged) {
+                result.updated++;
+            }
+            return;
+        }
+
+        if (CLOSED_STATUSES.includes(payment.status)) {
+            if (status === "finished") {
+                if (ReconciliationService.isAutoActivateEnabled()) {
+                    await this.paymentService.activateLatePayment(nowPayment);
+                    result.activated++;
+                    result.issues.push(
+                        `${label}: paid after ${payment.status}, activated (payment ${payment.id})`
+                    );
+                } else {
+                    await this.flag(
+                        result,
+                        payment,
+                        nowPayment,
+                        `paid_after_${payment.status}`,
+                        `${label}: paid but ${payment.status} locally — /complete ${payment.id}`
+                    );
+                }
+            } else if (status === "partially_paid") {
+                await this.flag(
+                    result,
+                    payment,
+                    nowPayment,
+                    `partially_paid_after_${payment.status}:${nowPayment.actually_paid}`,
+                    `${label}: partially paid (${nowPayment.actually_paid} of ${nowPayment.pay_amount} ${nowPayment.pay_currency}) but ${payment.status} locally`
+                );
+            }
+            return;
+        }
+
+        if (payment.status === PaymentStatus.COMPLETED) {
+            if (["failed", "refunded", "expired"].includes(status)) {
+                await this.flag(
+                    result,
+                    payment,
+                    nowPayment,
+                    `completed_but_${status}`,
+                    `${label}: COMPLETED locally but ${status} in NOWPayments`
+                );
+                return;
+            }
+
+            const difference = this.getAmountDifference(payment, nowPayment);
+            if (difference) {
+                await this.flag(
+                    result,
+                    payment,
+                    nowPayment,
+                    `amount:${difference}`,
+                    `${label}: ${difference}`
+                );
+            }
+        }
+    }
+
+    /**
+     * Расхождение по платежу сообщается один раз: отметка хранится
+     * в журнале событий платежа, повторные сверки ее пропускают
+     */
+    private async flag(
+        result: ReconciliationResult,
+        payment: Payment,
+        nowPayment: NOWPayment,
+        issue: string,
+        text: string
+    ) {
+        const flagged = await this.prisma.paymentEvent.findFirst({
+            where: {
+                paymentId: payment.id,
+                source: PaymentEventSource.RECONCILIATION,
+                details: { path: ["issue"], equals: issue },
+            },
+        });
+
+        if (flagged) {
+            return;
+        }
+
+        await this.paymentEventService.record(this.prisma, {
+            paymentId: payment.id,
+            source: PaymentEventSource.RECONCILIATION,
+            providerStatus: nowPayment.payment_status,
+            details: { issue, text },
+        });
+        result.issues.push(text);
+    }
+
+    /**
+     * Описание расхождения сумм, если оно есть
+     */
+    private getAmountDifference(
+        payment: Payment,
+        nowPayment: NOWPayment
+    ): string | null {
+        const differs = (local: unknown, remote: unknown) =>
+            local !== null &&
+            local !== undefined &&
+            remote !== null &&
+            remote !== undefined &&
+            Math.abs(Number(local) - Number(remote)) > AMOUNT_TOLERANCE;
+
+        // Цена плана записана только в исходном платеже, не в доплатах
+        if (
+            !payment.parentPaymentId &&
+            differs(payment.priceAmount, nowPayment.price_amount)
+        ) {
+            return `price ${nowPayment.price_amount} ${nowPayment.price_currency} in NOWPayments, ${payment.priceAmount} locally`;
+        }
+
+        if (differs(payment.actuallyPaid, nowPayment.actually_paid)) {
+            return `paid ${nowPayment.actually_paid} ${nowPayment.pay_currency} in NOWPayments, ${payment.actuallyPaid} locally`;
+        }
+
+        return null;
+    }
+
+    private async notifyAdmins(result: ReconciliationResult) {
+        const issues = result.issues.slice(0, MAX_REPORTED_ISSUES);
+        const more =
+            result.issues.length > issues.length
+                ? `\n…and ${result.issues.length - issues.length} more`
+                : "";
+        const text = `🔍 NOWPayments reconciliation: ${result.checked} checked, ${
+            result.updated
+        } updated, ${result.activated} activated${
+            issues.length > 0
+                ? `\n\n⚠️ Issues (${result.issues.length}):\n${issues
+                      .map((issue) => `• ${issue}`)
+                      .join("\n")}${more}`
+                : ""
+        }`;
+
+        for (const adminId of getAdminIds()) {
+            try {
+                await this.bot.sendMessage(adminId, text);
+            } catch (error) {
+                console.log(
+                    `Could not notify admin ${adminId}:`,
+                    error.message
+                );
+            }
+        }
+    }
+
+    private sleep(ms: number): Promise<void> {
+        return new Promise((resolve) => setTimeout(resolve, ms));
+    }
+}
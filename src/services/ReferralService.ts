@@ -0,0 +1,117 @@
+import { PrismaClient } from "@prisma/client";
+import { randomUUID } from "crypto";
+
+export const REFERRAL_PAYLOAD_PREFIX = "ref_";
+
+export class ReferralService {
+    constructor(private prisma: PrismaClient) {}
+
+    /**
+     * Количество бонусных дней за приглашенного (REFERRAL_BONUS_DAYS)
+     */
+    static getBonusDays(): number {
+        return parseInt(process.env.REFERRAL_BONUS_DAYS || "0", 10) || 0;
+    }
+
+    /**
+     * Бонус на баланс в USD за приглашенного (REFERRAL_BONUS_USD)
+     */
+    static getBonusUsd(): number {
+        return parseFloat(process.env.REFERRAL_BONUS_USD || "0") || 0;
+    }
+
+    /**
+     * Реферальный код пользователя (создается при первом запросе)
+     */
+    async getReferralCode(userId: string): Promise<string> {
+        const user = await this.prisma.user.findUnique({
+            where: { id: userId },
+        });
+
+        if (user?.referralCode) {
+            return user.referralCode;
+        }
+
+        const referralCode = randomUUID().replace(/-/g, "").slice(0, 10);
+        await this.prisma.user.update({
+            where: { id: userId },
+            data: { referralCode },
+        });
+
+        return referralCode;
+    }
+
+    /**
+     * Поиск пригласившего по payload из /start (ref_<code>)
+     */
+    async findReferrer(startPayload: string | undefined, telegramId: number) {
+        if (!startPayload?.startsWith(REFERRAL_PAYLOAD_PREFIX)) {
+            return null;
+        }
+
+        const referrer = await this.prisma.user.findUnique({
+            where: {
+                referralCode: startPayload.slice(REFERRAL_PAYLOAD_PREFIX.length),
+            },
+        });
+
+        // Защита от приглашения самого себя
+        if (!referrer || referrer.telegramId === BigInt(telegramId)) {
+            return null;
+        }
+
+        return referrer;
+    }
+
+    /**
+     * Фиксация награды за первую оплату приглашенного пользователя.
+     * Возвращает пригласившего, если награда положена.
+     */
+    async recordReward(tx: any, payment: any) {
+        const bonusDays = ReferralService.getBonusDays();
+        const bonusUsd = ReferralService.getBonusUsd();
+        if (bonusDays <= 0 && bonusUsd <= 0) {
+            return null;
+        }
+
+        const user = await tx.user.findUnique({
+            where: { id: payment.userId },
+            include: { referredBy: true, referralReward: true },
+        });
+
+        if (!user?.referredBy || user.referralReward) {
+            return null;
+        }
+
+        await tx.referralReward.create({
+            data: {
+                referrerId: user.referredBy.id,
+                referredUserId: user.id,
+                paymentId: payment.id,
+                bonusDays,
+            },
+        });
+
+        return { referrer: user.referredBy, bonusDays, bonusUsd };
+    }
+
+    /**
+     * Статистика приглашений пользователя
+     */
+    async getStats(userId: string) {
+        const [invited, rewards] = await Promise.all([
+            this.prisma.user.count({ where: { referredById: userId } }),
+            this.prisma.referralReward.aggregate({
+                where: { referrerId: userId },
+                _count: { id: true },
+                _sum: { bonusDays: true },
+            }),
+        ]);
+
+        return {
+            invited,
+            converted: rewards._count.id,
+            daysEarned: rewards._sum.bonusDays || 0,
+        };
+    }
+}
@@ -0,0 +1,170 @@
+import { Prisma, PrismaClient, SubscriptionStatus } from "@prisma/client";
+import TelegramBot from "node-telegram-bot-api";
+import { getUserLocale, Locale, planName, t } from "../i18n";
+import { PlanService } from "./PlanService";
+
+export class ReminderService {
+    constructor(
+        private prisma: PrismaClient,
+        private bot: TelegramBot,
+        private planService: PlanService
+    ) {}
+
+    /**
+     * За сколько до окончания подписки напоминать (REMINDER_OFFSETS,
+     * например "3d,24h,1h"), в секундах по убыванию
+     */
+    static getOffsets(): number[] {
+        return (process.env.REMINDER_OFFSETS || "3d,24h,1h")
+            .split(",")
+            .map((value) => PlanService.parseDuration(value))
+            .filter((seconds): seconds is number => !!seconds)
+            .sort((a, b) => b - a);
+    }
+
+    /**
+     * Отправка наступивших напоминаний. Из нескольких наступивших
+     * отправляется только ближайшее к окончанию, чтобы после простоя
+     * пользователь не получил все напоминания разом
+     */
+    async sendDueReminders() {
+        const offsets = ReminderService.getOffsets();
+        if (offsets.length === 0) return;
+
+        const now = new Date();
+        const subscriptions = await this.prisma.subscription.findMany({
+            where: {
+                status: SubscriptionStatus.ACTIVE,
+                endDate: {
+                    gt: now,
+                    lte: new Date(now.getTime() + offsets[0] * 1000),
+                },
+            },
+            include: { user: true, plan: true, channel: true },
+        });
+
+        let sentCount = 0;
+
+        for (const subscription of subscriptions) {
+            const secondsLeft =
+                (subscription.endDate.getTime() - now.getTime()) / 1000;
+            const offsetSeconds = Math.min(
+                ...offsets.filter((offset) => secondsLeft <= offset)
+            );
+
+            // Уникальный ключ (подписка, интервал, endDate) — повторно не отправим
+            try {
+                await this.prisma.subscriptionReminder.create({
+                    data: {
+                        subscriptionId: subscription.id,
+                        offsetSeconds,
+                        endDate: subscription.endDate,
+                    },
+                });
+            } catch (error) {
+                if (
+                    error instanceof Prisma.PrismaClientKnownRequestError &&
+                    error.code === "P2002"
+                ) {
+                    continue;
+                }
+                throw error;
+            }
+
+            const locale = getUserLocale(subscription.user);
+
+            try {
+                await this.bot.sendMessage(
+                    Number(subscription.user.telegramId),
+                    t(
+                        locale,
+                        subscription.isTrial
+                            ? "reminder.trialEnds"
+                            : "reminder.subscriptionEnds",
+                        {
+                            channel: subscription.channel.title,
+                            time: this.formatTimeLeft(secondsLeft, locale),
+                        }
+                    ),
+                    {
+                        reply_markup: await this.buildRenewKeyboard(
+                            subscription,
+                            locale
+                        ),
+                    }
+                );
+                sentCount++;
+            } catch (error) {
+                console.log(
+                    `Could not send reminder to user ${subscription.user.telegramId}:`,
+                    error.message
+                );
+            }
+
+            // Небольшая пауза между сообщениями
+            await new Promise((resolve) => setTimeout(resolve, 100));
+        }
+
+        if (sentCount > 0) {
+            console.log(`⏰ Sent ${sentCount} renewal reminders`);
+        }
+    }
+
+    /**
+     * Кнопки продления: текущий план подписки, а если его нельзя купить
+     * (пробный доступ, бонус, скрытый план) — планы ее канала
+     */
+    private async buildRenewKeyboard(
+        subscription: any,
+        locale: Locale
+    ): Promise<TelegramBot.InlineKeyboardMarkup> {
+        const plans =
+            subscription.plan?.isActive
+                ? [subscription.plan]
+                : await this.planService.getActivePlans(
+                      subscription.channel.id
+                  );
+
+        return {
+            inline_keyboard: [
+                ...plans.map((plan) => [
+                    {
+                        text: `⭐ ${planName(plan, locale)} · ${
+                            plan.starsPrice
+                        }⭐`,
+                        callback_data: `pay_stars_${plan.id}`,
+                    },
+                    {
+                        text: t(locale, "reminder.cryptoButton", {
+                            plan: planName(plan, locale),
+                            price: plan.usdPrice,
+                        }),
+                        callback_data: `pay_crypto_${plan.id}`,
+                    },
+                ]),
+                [
+                    {
+                        text: t(locale, "reminder.allPlans"),
+                        callback_data: `channel_${subscription.channel.id}`,
+                    },
+                ],
+            ],
+        };
+    }
+
+    private formatTimeLeft(seconds: number, locale: Locale): string {
+        if (seconds >= 24 * 60 * 60) {
+            return t(locale, "time.days", {
+                count: Math.round(seconds / (24 * 60 * 60)),
+            });
+        }
+        if (seconds >= 60 * 60) {
+            return t(locale, "time.hours", {
+                count: Math.round(seconds / (60 * 60)),
+            });
+        }
+        return t(locale, "time.minutes", {
+            count: Math.max(1, Math.round(seconds / 60)),
+        });
+    }
+}
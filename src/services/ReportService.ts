@@ -0,0 +1,306 @@
+import {
+    Payment,
+    PaymentStatus,
+    PaymentType,
+    Plan,
+    PrismaClient,
+    Refund,
+    User,
+} from "@prisma/client";
+
+export type ReportPeriod = "day" | "week" | "month";
+
+export interface RevenueTotals {
+    count: number;
+    stars: number;
+    usd: number;
+}
+
+// Разбивка выручки: возвраты вычитаются по дате возврата
+export interface RevenueSplit {
+    gross: RevenueTotals;
+    refunds: RevenueTotals;
+}
+
+export interface RevenueReport {
+    from: Date;
+    to: Date;
+    period: ReportPeriod;
+    gross: RevenueTotals;
+    refunds: RevenueTotals;
+    net: RevenueTotals;
+    // Покупки с баланса: деньги уже учтены при поступлении, в выручку
+    // не входят
+    balance: RevenueSplit;
+    byMethod: Record<string, RevenueSplit>;
+    byPlan: Record<string, RevenueSplit>;
+    // Для крипто-валют дополнительно сумма в монетах
+    byCurrency: Record<string, RevenueSplit & { received: number }>;
+    byPeriod: Record<string, RevenueSplit>;
+    payments: ReportPayment[];
+}
+
+type ReportPayment = Payment & {
+    user: User;
+    plan: Plan;
+    refund: Refund | null;
+};
+
+// Платежи, принесшие выручку; возвраты вычитаются отдельно по дате возврата
+const REVENUE_STATUSES = [PaymentStatus.COMPLETED, PaymentStatus.REFUNDED];
+
+const CSV_COLUMNS = [
+    "id",
+    "createdAt",
+    "status",
+    "paymentType",
+    "userId",
+    "telegramId",
+    "username",
+    "planId",
+    "plan",
+    "currency",
+    "amount",
+    "stars",
+    "usd",
+    "actuallyPaid",
+    "discountAmount",
+    "couponId",
+    "isGift",
+    "cryptoTxHash",
+    "telegramPaymentChargeId",
+    "manuallyCompletedAt",
+    "refundedAt",
+    "refundMethod",
+    "refundAmount",
+    "refundCurrency",
+] as const;
+
+function emptyTotals(): RevenueTotals {
+    return { count: 0, stars: 0, usd: 0 };
+}
+
+function emptySplit(): RevenueSplit {
+    return { gross: emptyTotals(), refunds: emptyTotals() };
+}
+
+/**
+ * Выручка за вычетом возвратов
+ */
+export function netTotals({ gross, refunds }: RevenueSplit): RevenueTotals {
+    return {
+        count: gross.count - refunds.count,
+        stars: gross.stars - refunds.stars,
+        usd: roundUsd(gross.usd - refunds.usd),
+    };
+}
+
+function roundUsd(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * Экранирование значения для CSV (RFC 4180)
+ */
+function csvValue(value: unknown): string {
+    if (value === null || value === undefined) {
+        return "";
+    }
+
+    const text = value instanceof Date ? value.toISOString() : String(value);
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export class ReportService {
+    constructor(private prisma: PrismaClient) {}
+
+    /**
+     * Выручка за период [from, to): звезды и доллары считаются отдельно,
+     * возвраты вычитаются по дате возврата. Доплаты к крипто-платежам
+     * не учитываются — цена плана записана в исходном платеже. Покупки
+     * с баланса считаются отдельно от выручки
+     */
+    async getRevenueReport(
+        from: Date,
+        to: Date,
+        period: ReportPeriod
+    ): Promise<RevenueReport> {
+        const include = { user: true, plan: true, refund: true };
+
+        const [paid, refunded] = await Promise.all([
+            this.prisma.payment.findMany({
+                where: {
+                    status: { in: REVENUE_STATUSES },
+                    parentPaymentId: null,
+                    createdAt: { gte: from, lt: to },
+                },
+                include,
+                orderBy: { createdAt: "asc" },
+            }),
+            this.prisma.payment.findMany({
+                where: {
+                    parentPaymentId: null,
+                    refund: { createdAt: { gte: from, lt: to } },
+                },
+                include,
+            }),
+        ]);
+
+        const report: RevenueReport = {
+            from,
+            to,
+            period,
+            gross: emptyTotals(),
+            refunds: emptyTotals(),
+            net: emptyTotals(),
+            balance: emptySplit(),
+            byMethod: {},
+            byPlan: {},
+            byCurrency: {},
+            byPeriod: {},
+            payments: [],
+        };
+
+        const splits = (payment: ReportPayment, date: Date) => [
+            (report.byMethod[payment.paymentType] ??= emptySplit()),
+            (report.byPlan[payment.plan.name] ??= emptySplit()),
+            (report.byCurrency[payment.currency] ??= {
+                ...emptySplit(),
+                received: 0,
+            }),
+            (report.byPeriod[this.getPeriodKey(date, period)] ??=
+                emptySplit()),
+        ];
+
+        for (const payment of paid) {
+            const value = this.getPaymentValue(payment);
+
+            if (payment.paymentType === PaymentType.BALANCE) {
+                this.add(report.balance.gross, value);
+                continue;
+            }
+
+            this.add(report.gross, value);
+            for (const split of splits(payment, payment.createdAt)) {
+                this.add(split.gross, value);
+            }
+
+            report.byCurrency[payment.currency].received += Number(
+                payment.actuallyPaid ?? payment.amount
+            );
+        }
+
+        for (const payment of refunded) {
+            const value = this.getPaymentValue(payment);
+
+            if (payment.paymentType === PaymentType.BALANCE) {
+                this.add(report.balance.refunds, value);
+                continue;
+            }
+
+            this.add(report.refunds, value);
+            for (const split of splits(payment, payment.refund!.createdAt)) {
+                this.add(split.refunds, value);
+            }
+        }
+
+        report.net = netTotals(report);
+
+        // Строки для выгрузки: оплаченные и возвращенные за период
+        const rows = new Map<string, ReportPayment>();
+        for (const payment of [...paid, ...refunded]) {
+            rows.set(payment.id, payment);
+        }
+        report.payments = [...rows.values()].sort(
+            (a, b) => a.createdAt.getTime() - b.createdAt.getTime()
+        );
+
+        return report;
+    }
+
+    /**
+     * Выгрузка платежей отчета в CSV для бухгалтерии
+     */
+    toCsv(report: RevenueReport): string {
+        const lines = [CSV_COLUMNS.join(",")];
+
+        for (const payment of report.payments) {
+            const value = this.getPaymentValue(payment);
+            const row: Record<(typeof CSV_COLUMNS)[number], unknown> = {
+                id: payment.id,
+                createdAt: payment.createdAt,
+                status: payment.status,
+                paymentType: payment.paymentType,
+                userId: payment.userId,
+                telegramId: payment.user.telegramId,
+                username: payment.user.username,
+                planId: payment.planId,
+                plan: payment.plan.name,
+                currency: payment.currency,
+                amount: payment.amount,
+                stars: value.stars,
+                usd: value.usd.toFixed(2),
+                actuallyPaid: payment.actuallyPaid,
+                discountAmount: payment.discountAmount,
+                couponId: payment.couponId,
+                isGift: payment.isGift,
+                cryptoTxHash: payment.cryptoTxHash,
+                telegramPaymentChargeId: payment.telegramPaymentChargeId,
+                manuallyCompletedAt: payment.manuallyCompletedAt,
+                refundedAt: payment.refund?.createdAt,
+                refundMethod: payment.refund?.method,
+                refundAmount: payment.refund?.amount,
+                refundCurrency: payment.refund?.currency,
+            };
+
+            lines.push(
+                CSV_COLUMNS.map((column) => csvValue(row[column])).join(",")
+            );
+        }
+
+        return `${lines.join("\r\n")}\r\n`;
+    }
+
+    /**
+     * Стоимость платежа: звезды для Telegram Stars, иначе цена в долларах
+     */
+    private getPaymentValue(payment: Payment): { stars: number; usd: number } {
+        if (payment.currency === "XTR") {
+            return { stars: Number(payment.amount), usd: 0 };
+        }
+
+        return {
+            stars: 0,
+            usd: Number(payment.priceAmount ?? payment.amount),
+        };
+    }
+
+    private add(
+        totals: RevenueTotals,
+        value: { stars: number; usd: number }
+    ) {
+        totals.count++;
+        totals.stars += value.stars;
+        totals.usd = roundUsd(totals.usd + value.usd);
+    }
+
+    /**
+     * Ключ периода (UTC): день, понедельник недели или месяц
+     */
+    private getPeriodKey(date: Date, period: ReportPeriod): string {
+        const iso = date.toISOString();
+
+        if (period === "month") {
+            return iso.slice(0, 7);
+        }
+
+        if (period === "week") {
+            const monday = new Date(date);
+            monday.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+            return monday.toISOString().slice(0, 10);
+        }
+
+        return iso.slice(0, 10);
+    }
+}
@@ -0,0 +1,562 @@
+import {
+    Channel,
+    PaymentStatus,
+    PeriodSource,
+    PrismaClient,
+    SubscriptionPeriod,
+    SubscriptionStatus,
+} from "@prisma/client";
+import TelegramBot from "node-telegram-bot-api";
+import { ChannelService } from "./ChannelService";
+import { InviteLinkService } from "./InviteLinkService";
+
+// Статусы, при которых пользователь остается в канале
+export const ACCESS_STATUSES: SubscriptionStatus[] = [
+    SubscriptionStatus.ACTIVE,
+    SubscriptionStatus.GRACE,
+];
+
+export interface AccessGrant {
+    userId: string;
+    planId: string | null;
+    duration: number; // мс
+    source: PeriodSource;
+    paymentId?: string;
+    giftId?: string;
+    isTrial?: boolean;
+    channelIds?: string[]; // Telegram id каналов, по умолчанию — каналы плана
+}
+
+export class SubscriptionService {
+    constructor(
+        private prisma: PrismaClient,
+        private bot: TelegramBot,
+        private channelService: ChannelService,
+        private inviteLinkService: InviteLinkService
+    ) {}
+
+    /**
+     * Настройки пробного доступа (TRIAL_ENABLED, TRIAL_DURATION_HOURS)
+     */
+    static getTrialConfig() {
+        return {
+            enabled: process.env.TRIAL_ENABLED === "true",
+            durationHours:
+                parseInt(process.env.TRIAL_DURATION_HOURS || "24", 10) || 24,
+        };
+    }
+
+    /**
+     * Льготный период после окончания подписки до удаления из канала
+     * (GRACE_PERIOD_HOURS)
+     */
+    static getGracePeriodHours(): number {
+        return Math.max(
+            0,
+            parseInt(process.env.GRACE_PERIOD_HOURS || "0", 10) || 0
+        );
+    }
+
+    /**
+     * Выдача или продление доступа ко всем каналам плана
+     */
+    async grantAccess(tx: any, grant: AccessGrant) {
+        const channelIds =
+            grant.channelIds || (await this.getPlanChatIds(grant.planId!, tx));
+
+        if (channelIds.length === 0) {
+            throw new Error(`Plan ${grant.planId} has no channels`);
+        }
+
+        const subscriptions = [];
+        for (const channelId of channelIds) {
+            subscriptions.push(
+                await this.grantChannelAccess(tx, grant, channelId)
+            );
+        }
+
+        return subscriptions;
+    }
+
+    /**
+     * Telegram id каналов плана
+     */
+    async getPlanChatIds(planId: string, tx: any = this.prisma) {
+        const channels = await this.channelService.getPlanChannels(planId, tx);
+        return channels.map((channel) => channel.telegramChatId);
+    }
+
+    /**
+     * Выдача или продление доступа к одному каналу
+     */
+    private async grantChannelAccess(
+        tx: any,
+        grant: AccessGrant,
+        channelId: string
+    ) {
+        const { duration } = grant;
+
+        // Ищем действующую подписку или подписку в льготном периоде
+        const existingSubscription = await tx.subscription.findFirst({
+            where: {
+                userId: grant.userId,
+                channelId: channelId,
+                status: { in: ACCESS_STATUSES },
+            },
+            orderBy: {
+                endDate: "desc", // Берем самую позднюю подписку
+            },
+        });
+
+        let startDate: Date;
+        let endDate: Date;
+        let subscription: any;
+
+        // Каждая выдача — отдельный период, срок подписки — конец последнего
+        const period = () => ({
+            source: grant.source,
+            planId: grant.planId,
+            paymentId: grant.paymentId,
+            giftId: grant.giftId,
+            startDate,
+            endDate,
+        });
+
+        if (existingSubscription) {
+            // ПРОДЛЕНИЕ: начинаем с окончания текущей подписки
+            // (льготный период не оплачивается — считаем от текущего момента)
+            startDate = new Date(
+                Math.max(existingSubscription.endDate.getTime(), Date.now())
+            );
+            endDate = new Date(startDate.getTime() + duration);
+
+            // Обновляем существующую подписку
+            subscription = await tx.subscription.update({
+                where: { id: existingSubscription.id },
+                data: {
+                    endDate: endDate,
+                    status: SubscriptionStatus.ACTIVE,
+                    // Обновляем план на новый (бонусное время план не меняет)
+                    planId: grant.planId || existingSubscription.planId,
+                    // Продленный пробный доступ перестает быть пробным
+                    isTrial: !!grant.isTrial,
+                    periods: { create: period() },
+                },
+            });
+
+            console.log(
+                `🔄 Subscription extended for user ${
+                    grant.userId
+                } in ${channelId}: ${existingSubscription.endDate.toISOString()} → ${endDate.toISOString()}`
+            );
+        } else {
+            // НОВАЯ ПОДПИСКА: начинаем с текущего момента
+            startDate = new Date();
+            endDate = new Date(startDate.getTime() + duration);
+
+            subscription = await tx.subscription.create({
+                data: {
+                    userId: grant.userId,
+                    channelId: channelId,
+                    planId: grant.planId,
+                    startDate,
+                    endDate,
+                    // Платеж подарка или реферала принадлежит другому
+                    // пользователю — он остается только в периоде
+                    paymentId:
+                        grant.source === PeriodSource.PAYMENT
+                            ? grant.paymentId
+                            : undefined,
+                    isTrial: !!grant.isTrial,
+                    periods: { create: period() },
+                },
+            });
+
+            console.log(
+                `✨ New subscription created for user ${
+                    grant.userId
+                } in ${channelId}: ${startDate.toISOString()} → ${endDate.toISOString()}`
+            );
+        }
+
+        return subscription;
+    }
+
+    /**
+     * Снятие времени, купленного платежом: неиспользованная часть его
+     * периодов отзывается, следующие за ними периоды сдвигаются назад
+     */
+    async revokePaymentTime(tx: any, payment: any) {
+        const periods = await tx.subscriptionPeriod.findMany({
+            where: {
+                paymentId: payment.id,
+                source: PeriodSource.PAYMENT,
+                revokedAt: null,
+            },
+        });
+
+        if (periods.length === 0) {
+            return this.shortenSubscriptions(
+                tx,
+                payment.userId,
+                payment.planId,
+                payment.durationSeconds * 1000
+            );
+        }
+
+        return this.revokePeriods(tx, periods);
+    }
+
+    /**
+     * Снятие у получателя времени, выданного подарком
+     */
+    async revokeGiftTime(tx: any, gift: any) {
+        const periods = await tx.subscriptionPeriod.findMany({
+            where: { giftId: gift.id, revokedAt: null },
+        });
+
+        if (periods.length === 0) {
+            return this.shortenSubscriptions(
+                tx,
+                gift.recipientId,
+                gift.planId,
+                gift.durationSeconds * 1000
+            );
+        }
+
+        return this.revokePeriods(tx, periods);
+    }
+
+    /**
+     * История периодов доступа пользователя, новые первыми
+     */
+    async getHistory(userId: string, take = 20) {
+        return this.prisma.subscriptionPeriod.findMany({
+            where: { subscription: { userId } },
+            include: {
+                plan: true,
+                subscription: { include: { channel: true } },
+            },
+            orderBy: [{ startDate: "desc" }, { createdAt: "desc" }],
+            take,
+        });
+    }
+
+    private async revokePeriods(tx: any, periods: SubscriptionPeriod[]) {
+        const now = new Date();
+        const subscriptionIds = new Set<string>();
+
+        for (const period of periods) {
+            // Прошедшая часть периода уже использована и не снимается
+            const cutAt = new Date(
+                Math.max(period.startDate.getTime(), now.getTime())
+            );
+            const removed = Math.max(
+                0,
+                period.endDate.getTime() - cutAt.getTime()
+            );
+
+            await tx.subscriptionPeriod.update({
+                where: { id: period.id },
+                data: {
+                    endDate: removed > 0 ? cutAt : period.endDate,
+                    revokedAt: now,
+                },
+            });
+
+            if (removed > 0) {
+                const later = await tx.subscriptionPeriod.findMany({
+                    where: {
+                        subscriptionId: period.subscriptionId,
+                        id: { not: period.id },
+                        revokedAt: null,
+                        startDate: { gte: period.endDate },
+                    },
+                });
+
+                for (const next of later) {
+                    await tx.subscriptionPeriod.update({
+                        where: { id: next.id },
+                        data: {
+                            startDate: new Date(
+                                next.startDate.getTime() - removed
+                            ),
+                            endDate: new Date(next.endDate.getTime() - removed),
+                        },
+                    });
+                }
+            }
+
+            subscriptionIds.add(period.subscriptionId);
+        }
+
+        const subscriptions = await tx.subscription.findMany({
+            where: {
+                id: { in: [...subscriptionIds] },
+                status: { in: ACCESS_STATUSES },
+            },
+        });
+        const updated = [];
+
+        for (const subscription of subscriptions) {
+            const { _max } = await tx.subscriptionPeriod.aggregate({
+                where: { subscriptionId: subscription.id, revokedAt: null },
+                _max: { endDate: true },
+            });
+            const endDate: Date = _max.endDate ?? now;
+
+            updated.push(
+                await tx.subscription.update({
+                    where: { id: subscription.id },
+                    data: {
+                        endDate,
+                        status:
+                            endDate > now
+                                ? SubscriptionStatus.ACTIVE
+                                : SubscriptionStatus.REVOKED,
+                    },
+                    include: { user: true },
+                })
+            );
+        }
+
+        return updated;
+    }
+
+    /**
+     * Сокращение подписок на срок во всех каналах плана — для выдач,
+     * сделанных до появления периодов
+     */
+    private async shortenSubscriptions(
+        tx: any,
+        userId: string,
+        planId: string,
+        duration: number
+    ) {
+        const channels = await this.channelService.getPlanChannels(planId, tx);
+        const subscriptions = [];
+
+        for (const channel of channels) {
+            const subscription = await tx.subscription.findFirst({
+                where: {
+                    userId,
+                    channelId: channel.telegramChatId,
+                    status: { in: ACCESS_STATUSES },
+                },
+                orderBy: {
+                    endDate: "desc",
+                },
+            });
+
+            if (!subscription) continue;
+
+            const endDate = new Date(
+                subscription.endDate.getTime() - duration
+            );
+            const status =
+                endDate > new Date()
+                    ? SubscriptionStatus.ACTIVE
+                    : SubscriptionStatus.REVOKED;
+
+            // Периоды обрезаются по новому сроку, чтобы он из них выводился
+            await tx.subscriptionPeriod.updateMany({
+                where: {
+                    subscriptionId: subscription.id,
+                    endDate: { gt: endDate },
+                },
+                data: { endDate, revokedAt: new Date() },
+            });
+
+            subscriptions.push(
+                await tx.subscription.update({
+                    where: { id: subscription.id },
+                    data: { endDate, status },
+                    include: { user: true },
+                })
+            );
+        }
+
+        return subscriptions;
+    }
+
+    /**
+     * Продление действующих подписок (во всех каналах или в одном)
+     */
+    async extendAccess(
+        userId: string,
+        duration: number,
+        channelId?: string
+    ) {
+        const subscriptions = await this.prisma.subscription.findMany({
+            where: {
+                userId,
+                status: { in: ACCESS_STATUSES },
+                ...(channelId ? { channelId } : {}),
+            },
+        });
+
+        if (subscriptions.length === 0) {
+            throw new Error("User has no active subscription");
+        }
+
+        return this.prisma.$transaction(
+            subscriptions.map((subscription) => {
+                const endDate = new Date(
+                    subscription.endDate.getTime() + duration
+                );
+
+                return this.prisma.subscription.update({
+                    where: { id: subscription.id },
+                    data: {
+                        endDate,
+                        status:
+                            endDate > new Date()
+                                ? SubscriptionStatus.ACTIVE
+                                : SubscriptionStatus.GRACE,
+                        periods: {
+                            create: {
+                                source: PeriodSource.ADMIN,
+                                startDate: subscription.endDate,
+                                endDate,
+                            },
+                        },
+                    },
+                    include: { channel: true },
+                });
+            })
+        );
+    }
+
+    /**
+     * Досрочное прекращение доступа с удалением из каналов
+     */
+    async revokeAccess(userId: string, channelId?: string) {
+        const subscriptions = await this.prisma.subscription.findMany({
+            where: {
+                userId,
+                status: { in: ACCESS_STATUSES },
+                ...(channelId ? { channelId } : {}),
+            },
+            include: { user: true, channel: true },
+        });
+
+        const now = new Date();
+        const subscriptionIds = subscriptions.map((s) => s.id);
+
+        // Оставшееся время всех периодов отзывается
+        await this.prisma.$transaction([
+            this.prisma.subscription.updateMany({
+                where: { id: { in: subscriptionIds } },
+                data: { status: SubscriptionStatus.REVOKED, endDate: now },
+            }),
+            this.prisma.subscriptionPeriod.updateMany({
+                where: {
+                    subscriptionId: { in: subscriptionIds },
+                    startDate: { gt: now },
+                },
+                data: { startDate: now, endDate: now, revokedAt: now },
+            }),
+            this.prisma.subscriptionPeriod.updateMany({
+                where: {
+                    subscriptionId: { in: subscriptionIds },
+                    endDate: { gt: now },
+                },
+                data: { endDate: now, revokedAt: now },
+            }),
+        ]);
+
+        for (const subscription of subscriptions) {
+            await this.removeFromChannel(
+                subscription.channelId,
+                Number(subscription.user.telegramId)
+            );
+        }
+
+        return subscriptions;
+    }
+
+    /**
+     * Удаление из канала без постоянного бана: бан сразу снимается,
+     * вернуться можно по новой ссылке-приглашению. false — удалить
+     * не удалось, пользователь может остаться в канале
+     */
+    async removeFromChannel(
+        channelId: string,
+        telegramId: number
+    ): Promise<boolean> {
+        // Неиспользованные ссылки не должны вернуть пользователя в канал
+        await this.inviteLinkService.revokeUnused(
+            channelId,
+            BigInt(telegramId)
+        );
+
+        try {
+            await this.bot.banChatMember(channelId, telegramId);
+            await this.bot.unbanChatMember(channelId, telegramId, {
+                only_if_banned: true,
+            });
+            return true;
+        } catch (error) {
+            console.log(
+                `Could not remove user ${telegramId} from channel:`,
+                error.message
+            );
+            return false;
+        }
+    }
+
+    /**
+     * Пробный доступ доступен один раз и только тем, кто еще не платил
+     */
+    async isTrialAvailable(userId: string): Promise<boolean> {
+        if (!SubscriptionService.getTrialConfig().enabled) {
+            return false;
+        }
+
+        const user = await this.prisma.user.findUnique({
+            where: { id: userId },
+            include: {
+                subscriptions: { take: 1 },
+                payments: {
+                    where: { status: PaymentStatus.COMPLETED },
+                    take: 1,
+                },
+            },
+        });
+
+        return (
+            !!user &&
+            !user.trialUsedAt &&
+            user.subscriptions.length === 0 &&
+            user.payments.length === 0
+        );
+    }
+
+    /**
+     * Выдача пробного доступа к каналу
+     */
+    async startTrial(userId: string, channel: Channel) {
+        const { durationHours } = SubscriptionService.getTrialConfig();
+
+        return this.prisma.$transaction(async (tx) => {
+            // Условное обновление защищает от повторной выдачи
+            const marked = await tx.user.updateMany({
+                where: { id: userId, trialUsedAt: null },
+                data: { trialUsedAt: new Date() },
+            });
+
+            if (marked.count === 0) {
+                throw new Error("Trial already used");
+            }
+
+            return this.grantAccess(tx, {
+                userId,
+                planId: null,
+                duration: durationHours * 60 * 60 * 1000,
+                source: PeriodSource.TRIAL,
+                isTrial: true,
+                channelIds: [channel.telegramChatId],
+            });
+        });
+    }
+}
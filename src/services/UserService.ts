@@ -0,0 +1,100 @@
+import { PrismaClient } from "@prisma/client";
+import TelegramBot from "node-telegram-bot-api";
+import { getUserLocale, Locale } from "../i18n";
+import { ReferralService } from "./ReferralService";
+
+export class UserService {
+    constructor(
+        private prisma: PrismaClient,
+        private referralService: ReferralService
+    ) {}
+
+    /**
+     * Поиск или создание пользователя. Payload из /start учитывается
+     * только при первом обращении (реферальная ссылка).
+     */
+    async getOrCreateUser(
+        telegramUser: TelegramBot.User,
+        startPayload?: string
+    ): Promise<string> {
+        let user = await this.prisma.user.findUnique({
+            where: { telegramId: BigInt(telegramUser.id) },
+        });
+
+        if (!user) {
+            const referrer = await this.referralService.findReferrer(
+                startPayload,
+                telegramUser.id
+            );
+
+            user = await this.prisma.user.create({
+                data: {
+                    telegramId: BigInt(telegramUser.id),
+                    username: telegramUser.username,
+                    firstName: telegramUser.first_name,
+                    lastName: telegramUser.last_name,
+                    languageCode: telegramUser.language_code,
+                    referredById: referrer?.id,
+                },
+            });
+
+            if (referrer) {
+                console.log(
+                    `🤝 User ${telegramUser.id} was referred by ${referrer.telegramId}`
+                );
+            }
+        } else if (
+            telegramUser.language_code &&
+            telegramUser.language_code !== user.languageCode
+        ) {
+            // Язык в Telegram мог смениться
+            await this.prisma.user.update({
+                where: { id: user.id },
+                data: { languageCode: telegramUser.language_code },
+            });
+        }
+
+        return user.id;
+    }
+
+    /**
+     * Язык пользователя для сообщений бота
+     */
+    async getLocale(userId: string): Promise<Locale> {
+        const user = await this.prisma.user.findUnique({
+            where: { id: userId },
+        });
+        return getUserLocale(user);
+    }
+
+    /**
+     * Язык, выбранный командой /language
+     */
+    async setLanguage(userId: string, language: Locale) {
+        await this.prisma.user.update({
+            where: { id: userId },
+            data: { language },
+        });
+    }
+
+    /**
+     * Поиск пользователя по Telegram id, @username или внутреннему id
+     */
+    async findUser(query: string) {
+        if (query.startsWith("@")) {
+            return this.prisma.user.findFirst({
+                where: {
+                    username: { equals: query.slice(1), mode: "insensitive" },
+                },
+            });
+        }
+
+        if (/^\d+$/.test(query)) {
+            return this.prisma.user.findUnique({
+                where: { telegramId: BigInt(query) },
+            });
+        }
+
+        return this.prisma.user.findUnique({ where: { id: query } });
+    }
+}
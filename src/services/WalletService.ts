@@ -0,0 +1,90 @@
+import { BalanceEntry, BalanceEntryType, PrismaClient } from "@prisma/client";
+
+export interface BalanceEntryInput {
+    userId: string;
+    type: BalanceEntryType;
+    amount: number; // USD, всегда положительная
+    paymentId?: string;
+    adminTelegramId?: number;
+    description?: string;
+}
+
+export class WalletService {
+    constructor(private prisma: PrismaClient) {}
+
+    /**
+     * Текущий баланс пользователя в USD
+     */
+    async getBalance(userId: string): Promise<number> {
+        const user = await this.prisma.user.findUnique({
+            where: { id: userId },
+        });
+        return Number(user?.balance || 0);
+    }
+
+    async getRecentEntries(userId: string, take = 10): Promise<BalanceEntry[]> {
+        return this.prisma.balanceEntry.findMany({
+            where: { userId },
+            orderBy: { createdAt: "desc" },
+            take,
+        });
+    }
+
+    /**
+     * Зачисление на баланс. Записи журнала не изменяются и не удаляются,
+     * баланс пользователя — их сумма
+     */
+    async credit(tx: any, entry: BalanceEntryInput): Promise<BalanceEntry> {
+        await tx.user.update({
+            where: { id: entry.userId },
+            data: { balance: { increment: entry.amount } },
+        });
+
+        return this.createEntry(tx, entry, entry.amount);
+    }
+
+    /**
+     * Списание с баланса; при недостатке средств бросает ошибку
+     */
+    async debit(tx: any, entry: BalanceEntryInput): Promise<BalanceEntry> {
+        // Условное обновление не дает уйти в минус при параллельных покупках
+        const updated = await tx.user.updateMany({
+            where: { id: entry.userId, balance: { gte: entry.amount } },
+            data: { balance: { decrement: entry.amount } },
+        });
+
+        if (updated.count === 0) {
+            throw new Error("Insufficient balance");
+        }
+
+        return this.createEntry(tx, entry, -entry.amount);
+    }
+
+    private async createEntry(
+        tx: any,
+        entry: BalanceEntryInput,
+        amount: number
+    ): Promise<BalanceEntry> {
+        const created = await tx.balanceEntry.create({
+            data: {
+                userId: entry.userId,
+                type: entry.type,
+                amount,
+                paymentId: entry.paymentId,
+                adminTelegramId:
+                    entry.adminTelegramId !== undefined
+                        ? BigInt(entry.adminTelegramId)
+                        : undefined,
+                description: entry.description,
+            },
+        });
+
+        console.log(
+            `💰 Balance ${entry.type} ${amount > 0 ? "+" : ""}${amount.toFixed(
+                2
+            )} USD for user ${entry.userId}`
+        );
+
+        return created;
+    }
+}
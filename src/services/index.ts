@@ -1,3 +1,20 @@
 export * from "./CryptoMonitor";
 export * from "./PaymentService";
 export * from "./NOWPaymentsService";
+export * from "./PlanService";
+export * from "./CouponService";
+export * from "./ReferralService";
+export * from "./UserService";
+export * from "./SubscriptionService";
+export * from "./GiftService";
+export * from "./ChannelService";
+export * from "./AuditService";
+export * from "./BroadcastService";
+export * from "./ReminderService";
+export * from "./WalletService";
+export * from "./AutoRenewService";
+export * from "./ReportService";
+export * from "./ReconciliationService";
+export * from "./PaymentEventService";
+export * from "./MembershipService";
+export * from "./InviteLinkService";